@@ -0,0 +1,23 @@
+/**
+ * The subset of Node's `AsyncLocalStorage` used to tell async call chains apart.
+ */
+export interface AsyncLocalStorageLike<T> {
+  getStore(): T | undefined;
+  run<R>(store: T, callback: () => R): R;
+}
+
+/**
+ * Creates an `AsyncLocalStorage` where the runtime provides one (Node.js, Deno, Bun),
+ * without a static import that would break browser bundles. Returns null elsewhere.
+ */
+export function createAsyncLocalStorage<T>(): AsyncLocalStorageLike<T> | null {
+  const process = (
+    globalThis as {
+      process?: { getBuiltinModule?: (id: string) => unknown };
+    }
+  ).process;
+  const asyncHooks = process?.getBuiltinModule?.('node:async_hooks') as
+    | { AsyncLocalStorage?: new () => AsyncLocalStorageLike<T> }
+    | undefined;
+  return asyncHooks?.AsyncLocalStorage === undefined ? null : new asyncHooks.AsyncLocalStorage();
+}
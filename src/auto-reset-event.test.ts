@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { AutoResetEvent, LockTimeoutError, timeout } from '.';
+
+async function passes(event: AutoResetEvent) {
+  const controller = new AbortController();
+  const waiting = event.wait({ signal: controller.signal }).then(
+    () => true,
+    () => false,
+  );
+  await timeout(10);
+  controller.abort();
+  return await waiting;
+}
+
+describe('auto-reset-event', { timeout: 10000 }, () => {
+  it.concurrent('lets one waiter through per set', async () => {
+    const event = new AutoResetEvent();
+    let passed = 0;
+    const waiters = Array.from({ length: 3 }, async () => {
+      await event.wait();
+      ++passed;
+    });
+    expect(event.waitingCount).toBe(3);
+
+    event.set();
+    await timeout(5);
+    expect(passed).toBe(1);
+    expect(event.isSet).toBe(false);
+
+    event.set();
+    event.set();
+    await Promise.all(waiters);
+    expect(passed).toBe(3);
+    expect(event.waitingCount).toBe(0);
+  });
+
+  it.concurrent('keeps a set for the next waiter, without accumulating', async () => {
+    const event = new AutoResetEvent();
+    event.set();
+    event.set();
+    expect(event.isSet).toBe(true);
+    await event.wait({ timeoutMs: 0 });
+    expect(event.isSet).toBe(false);
+    expect(await passes(event)).toBe(false);
+
+    event.set();
+    event.reset();
+    expect(await passes(event)).toBe(false);
+    expect(await passes(new AutoResetEvent({ isSet: true }))).toBe(true);
+  });
+
+  it.concurrent('neither loses nor duplicates wakeups when sets race with waiters', async () => {
+    const event = new AutoResetEvent();
+    const sets = 50;
+    let woken = 0;
+    const waiters = Array.from({ length: sets }, async () => {
+      await timeout(Math.random() * 10);
+      await event.wait();
+      ++woken;
+    });
+    await Promise.all(
+      Array.from({ length: sets }, async () => {
+        await timeout(Math.random() * 10);
+        // A set must never find the event already set while waiters are still to come
+        while (event.isSet) await timeout(1);
+        event.set();
+      }),
+    );
+    await Promise.all(waiters);
+    expect(woken).toBe(sets);
+    expect(event.isSet).toBe(false);
+    expect(event.waitingCount).toBe(0);
+  });
+
+  it.concurrent('passes a set on when the waiter gives up', async () => {
+    const event = new AutoResetEvent({ name: 'work' });
+    await expect(event.wait({ timeoutMs: 10 })).rejects.toThrow(new LockTimeoutError('work', 10));
+    expect(event.waitingCount).toBe(0);
+
+    const controller = new AbortController();
+    const aborted = event.wait({ signal: controller.signal });
+    const patient = event.wait();
+    // The rejection is already in flight when the set picks the aborted waiter
+    controller.abort(new Error('stop'));
+    event.set();
+    await expect(aborted).rejects.toThrow('stop');
+    await patient;
+    expect(event.isSet).toBe(false);
+
+    const other = new AbortController();
+    const alone = event.wait({ signal: other.signal });
+    other.abort();
+    event.set();
+    await expect(alone).rejects.toThrow();
+    expect(event.isSet).toBe(true);
+  });
+
+  it.concurrent('does not lose a set to a wait that lost a race', async () => {
+    const event = new AutoResetEvent();
+    expect('gate' in event).toBe(false);
+    // The timer wins, and the wait gives up on its own instead of lingering in the queue
+    await Promise.race([event.wait({ timeoutMs: 10 }).catch(() => undefined), timeout(5)]);
+    await timeout(20);
+    expect(event.waitingCount).toBe(0);
+
+    const waiting = event.wait({ timeoutMs: 1000 });
+    expect(event.waitingCount).toBe(1);
+    event.set();
+    await waiting;
+    expect(event.isSet).toBe(false);
+  });
+});
@@ -0,0 +1,138 @@
+import { cancellation, race } from './cancellation';
+import { LockTimeoutError } from './errors';
+import type { WaitOptions } from './latch';
+
+/**
+ * Options accepted by the {@link AutoResetEvent} constructor.
+ */
+export interface AutoResetEventOptions {
+  /** A name identifying the event in errors. Defaults to `'AutoResetEvent'`. */
+  name?: string;
+  /** Whether the event starts set, letting the first waiter through. Defaults to false. */
+  isSet?: boolean;
+}
+
+interface EventWaiter {
+  released: boolean;
+  resolve: () => void;
+}
+
+/**
+ * An event that lets one waiter through per {@link set}, then closes again on its own.
+ * Where an open {@link Latch} lets everyone through until it is closed, like a manual-reset event,
+ * AutoResetEvent suits signalling work to one of several workers.
+ *
+ * A set with nobody waiting is kept for the next waiter to arrive; setting an event that is
+ * already set does nothing, so signals do not accumulate. Use a {@link Semaphore} to count them.
+ *
+ * @example
+ * ```typescript
+ * const work = new AutoResetEvent();
+ *
+ * async function worker() {
+ *   for (;;) {
+ *     await work.wait();
+ *     await drain(queue);
+ *   }
+ * }
+ *
+ * queue.push(job);
+ * work.set(); // wakes one worker
+ * ```
+ */
+export class AutoResetEvent {
+  private readonly m_waiters: EventWaiter[] = [];
+  private m_isSet: boolean;
+
+  /**
+   * The name of the event, as reported by {@link LockTimeoutError}.
+   */
+  public readonly name: string;
+
+  /**
+   * Initializes a new AutoResetEvent, not set unless the options say otherwise.
+   *
+   * @param options - Optional settings, such as a name used in error messages and the initial state.
+   */
+  public constructor(options: AutoResetEventOptions = {}) {
+    this.name = options.name ?? 'AutoResetEvent';
+    this.m_isSet = options.isSet ?? false;
+  }
+
+  /**
+   * Whether the event is set, so that the next waiter would pass right away.
+   *
+   * @returns true if the event is set, false otherwise.
+   */
+  public get isSet() {
+    return this.m_isSet;
+  }
+
+  /**
+   * The number of tasks currently waiting for the event.
+   *
+   * @returns The count of waiting tasks.
+   */
+  public get waitingCount() {
+    return this.m_waiters.length;
+  }
+
+  /**
+   * Waits until the event lets this caller through.
+   * Every call queues a waiter that takes a set when it comes, so a wait that is no longer wanted
+   * must be given up through `signal` or `timeoutMs` rather than dropped: a caller giving up does
+   * not take a set, it goes to the next waiter instead. Unlike {@link Latch}, there is no `gate`
+   * property, as reading one would queue a waiter as well.
+   *
+   * @param options - Options such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise that resolves when the event lets this caller through.
+   * @throws {LockTimeoutError} If `timeoutMs` elapses before the event is set.
+   */
+  public async wait(options: WaitOptions = {}) {
+    const { signal, timeoutMs } = options;
+    signal?.throwIfAborted();
+    if (this.m_isSet) {
+      this.m_isSet = false;
+      return;
+    }
+    let waiter!: EventWaiter;
+    const released = new Promise<void>(resolve => (waiter = { released: false, resolve }));
+    this.m_waiters.push(waiter);
+
+    const cancel = cancellation(signal, timeoutMs, ms => new LockTimeoutError(this.name, ms));
+    try {
+      await race(released, cancel);
+    } catch (error) {
+      if (waiter.released) {
+        // Released while the rejection was in flight: pass the set on
+        this.set();
+      } else {
+        this.m_waiters.splice(this.m_waiters.indexOf(waiter), 1);
+      }
+      throw error;
+    } finally {
+      cancel?.dispose();
+    }
+  }
+
+  /**
+   * Lets the longest waiting task through, or the next one to arrive if nobody is waiting.
+   * No-op if the event is already set.
+   */
+  public set() {
+    const waiter = this.m_waiters.shift();
+    if (waiter === undefined) {
+      this.m_isSet = true;
+      return;
+    }
+    waiter.released = true;
+    waiter.resolve();
+  }
+
+  /**
+   * Takes back a set nobody has waited for yet. Tasks already let through are not affected.
+   */
+  public reset() {
+    this.m_isSet = false;
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * A pending rejection tied to an `AbortSignal` and/or a timeout, used to abandon a wait on a lock.
+ * Must be disposed once the wait is over so neither the listener nor the timer outlives it.
+ */
+export interface Cancellation {
+  readonly promise: Promise<never>;
+  dispose(): void;
+}
+
+function disposeStub() {
+  return;
+}
+
+/**
+ * Creates a cancellation that rejects with the signal's reason once it aborts, or with the error
+ * produced by `timeoutError` once `timeoutMs` elapses. Returns null when there is nothing to cancel
+ * on, so callers can keep their fast path.
+ */
+export function cancellation(
+  signal: AbortSignal | undefined,
+  timeoutMs?: number,
+  timeoutError?: (timeoutMs: number) => Error,
+): Cancellation | null {
+  if (signal === undefined && timeoutMs === undefined) return null;
+  let disposeSignal = disposeStub;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const promise = new Promise<never>((_resolve, reject) => {
+    if (signal !== undefined) {
+      if (signal.aborted) return reject(signal.reason);
+      const onAbort = () => reject(signal.reason);
+      signal.addEventListener('abort', onAbort, { once: true });
+      disposeSignal = () => signal.removeEventListener('abort', onAbort);
+    }
+    if (timeoutMs !== undefined) {
+      timer = setTimeout(
+        () => reject(timeoutError?.(timeoutMs) ?? new Error(`Timed out after ${timeoutMs}ms`)),
+        Math.min(2147483647, timeoutMs),
+      );
+    }
+  });
+  return {
+    promise,
+    dispose: () => {
+      disposeSignal();
+      clearTimeout(timer);
+    },
+  };
+}
+
+/**
+ * Awaits the promise unless the cancellation fires first.
+ * Without a cancellation the promise is returned as is, adding no extra ticks.
+ */
+export function race<T>(promise: Promise<T>, cancel: Cancellation | null): Promise<T> {
+  return cancel === null ? promise : Promise.race([promise, cancel.promise]);
+}
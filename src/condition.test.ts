@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { Condition, LockTimeoutError, Mutex, MutexRW, timeout } from '.';
+
+describe('condition', { timeout: 10000 }, () => {
+  it.concurrent('hands items from producers to consumers', async () => {
+    const mutex = new Mutex();
+    const notEmpty = new Condition(mutex);
+    const queue: number[] = [];
+    const consumed: number[] = [];
+
+    const consume = async () => {
+      let release = await mutex.obtain();
+      try {
+        release = await notEmpty.waitFor(release, () => queue.length > 0);
+        expect(mutex.isLocked).toBe(true);
+        consumed.push(queue.shift()!);
+      } finally {
+        release();
+      }
+    };
+    const produce = async (item: number) => {
+      await timeout(Math.random() * 5);
+      using _ = await mutex.lock();
+      queue.push(item);
+      notEmpty.notify();
+    };
+
+    const items = Array.from({ length: 20 }, (_, i) => i);
+    await Promise.all([...items.map(consume), ...items.map(produce)]);
+    expect(consumed.sort((a, b) => a - b)).toEqual(items);
+    expect(notEmpty.waitingCount).toBe(0);
+    expect(mutex.isLocked).toBe(false);
+  });
+
+  it.concurrent('releases the lock while waiting and re-acquires it before resuming', async () => {
+    const mutex = new Mutex();
+    const condition = new Condition(mutex);
+    const order: string[] = [];
+
+    const waiting = (async () => {
+      const release = await condition.wait(await mutex.obtain());
+      order.push('resumed');
+      release();
+    })();
+    await timeout(5);
+    expect(mutex.isLocked).toBe(false);
+    expect(condition.waitingCount).toBe(1);
+
+    const release = await mutex.obtain();
+    expect(condition.notify()).toBe(true);
+    await timeout(5);
+    order.push('notifier done');
+    release();
+    await waiting;
+    expect(order).toEqual(['notifier done', 'resumed']);
+    expect(condition.notify()).toBe(false);
+  });
+
+  it.concurrent('wakes waiters one at a time or all together', async () => {
+    const mutex = new Mutex();
+    const condition = new Condition(mutex);
+    let woken = 0;
+    const waiter = async () => {
+      using _ = await condition.wait(await mutex.lock());
+      ++woken;
+    };
+    const waiters = Array.from({ length: 3 }, waiter);
+    await timeout(5);
+    expect(condition.waitingCount).toBe(3);
+
+    condition.notify();
+    await timeout(5);
+    expect(woken).toBe(1);
+    expect(condition.notifyAll()).toBe(2);
+    await Promise.all(waiters);
+    expect(woken).toBe(3);
+  });
+
+  it.concurrent('works with MutexRW write handles', async () => {
+    const mutex = new MutexRW();
+    const condition = new Condition(mutex);
+    let ready = false;
+
+    const waiting = (async () => {
+      let handle = await mutex.lockWrite();
+      handle = await condition.waitFor(handle, () => ready);
+      expect(mutex.isWriteLocked).toBe(true);
+      handle.downgrade();
+      expect(mutex.isReadLocked).toBe(true);
+      handle[Symbol.dispose]();
+    })();
+    await timeout(5);
+    {
+      using _ = await mutex.lockRead();
+      expect(condition.waitingCount).toBe(1);
+    }
+    const release = await mutex.obtainWrite();
+    ready = true;
+    condition.notifyAll();
+    release();
+    await waiting;
+    expect(mutex.isReadLocked || mutex.isWriteLocked).toBe(false);
+  });
+
+  it.concurrent('times out without holding the lock', async () => {
+    const mutex = new Mutex();
+    const condition = new Condition(mutex, { name: 'ready' });
+    const release = await mutex.obtain();
+    await expect(condition.waitFor(release, () => false, { timeoutMs: 20 })).rejects.toThrow(
+      new LockTimeoutError('ready', 20),
+    );
+    expect(mutex.isLocked).toBe(false);
+    expect(condition.waitingCount).toBe(0);
+    release(); // the released handle stays harmless
+    expect(mutex.isLocked).toBe(false);
+
+    const other = await mutex.obtain();
+    const returned = await condition.waitFor(other, () => true, { timeoutMs: 0 });
+    expect(returned).toBe(other);
+    other();
+  });
+
+  it.concurrent('stops waiting when the signal aborts, even while re-acquiring', async () => {
+    const mutex = new Mutex();
+    const condition = new Condition(mutex);
+    const controller = new AbortController();
+    const waiting = (async () => condition.wait(await mutex.obtain(), { signal: controller.signal }))();
+    await timeout(5);
+
+    const release = await mutex.obtain();
+    condition.notify();
+    await timeout(5);
+    controller.abort(new Error('stop'));
+    await expect(waiting).rejects.toThrow('stop');
+    release();
+    expect(mutex.isLocked).toBe(false);
+    expect(mutex.waitingCount).toBe(0);
+  });
+
+  it.concurrent('passes on a notification received while abandoning the wait', async () => {
+    const mutex = new Mutex();
+    const condition = new Condition(mutex);
+    const controller = new AbortController();
+    const abandoning = (async () => condition.wait(await mutex.obtain(), { signal: controller.signal }))();
+    const waiting = (async () => {
+      await timeout(1);
+      return condition.wait(await mutex.obtain());
+    })();
+    await timeout(10);
+    expect(condition.waitingCount).toBe(2);
+
+    controller.abort(new Error('stop'));
+    condition.notify(); // reaches the first waiter before its rejection is handled
+    await expect(abandoning).rejects.toThrow('stop');
+    (await waiting)();
+    expect(condition.waitingCount).toBe(0);
+  });
+});
@@ -0,0 +1,199 @@
+import { cancellation, race } from './cancellation';
+import { LockTimeoutError } from './errors';
+import { type AcquireOptions, Mutex, type MutexRW } from './mutex';
+
+/**
+ * What {@link Condition.wait} accepts and returns: the release function from `obtain()` or
+ * `obtainWrite()`, or the disposable from `lock()` or `lockWrite()`.
+ */
+export type ConditionHeldLock = (() => void) | Disposable;
+
+/**
+ * Options accepted by the {@link Condition} constructor.
+ */
+export interface ConditionOptions {
+  /** A name identifying the condition in errors. Defaults to `'Condition'`. */
+  name?: string;
+}
+
+interface ConditionWaiter {
+  notified: boolean;
+  resolve: () => void;
+}
+
+/**
+ * A condition variable for {@link Mutex}, or for the write lock of {@link MutexRW}: lets the holder
+ * of the lock wait until another task changes the guarded state and notifies it.
+ *
+ * {@link wait} releases the lock and starts waiting in one step, so a notification sent by the next
+ * holder cannot be missed, then re-acquires the lock before resuming. Since the lock is handed back
+ * through a new handle, keep it in a `let` and always wait in a loop, or with a predicate: another
+ * task may have changed the state again before the lock was re-acquired.
+ *
+ * @example
+ * ```typescript
+ * const mutex = new Mutex();
+ * const notEmpty = new Condition(mutex);
+ * const queue: Job[] = [];
+ *
+ * async function consume() {
+ *   let release = await mutex.obtain();
+ *   try {
+ *     release = await notEmpty.waitFor(release, () => queue.length > 0);
+ *     return queue.shift()!;
+ *   } finally {
+ *     release();
+ *   }
+ * }
+ *
+ * async function produce(job: Job) {
+ *   using _ = await mutex.lock();
+ *   queue.push(job);
+ *   notEmpty.notify();
+ * }
+ * ```
+ */
+export class Condition {
+  private readonly m_waiters: ConditionWaiter[] = [];
+
+  /**
+   * The name of the condition, as reported by {@link LockTimeoutError}.
+   */
+  public readonly name: string;
+
+  /**
+   * Initializes a new Condition for the given lock, with no waiters.
+   *
+   * @param mutex - The lock guarding the state; for a MutexRW, waiting requires its write lock.
+   * @param options - Optional settings, such as a name used in error messages.
+   */
+  public constructor(
+    public readonly mutex: Mutex | MutexRW,
+    options: ConditionOptions = {},
+  ) {
+    this.name = options.name ?? 'Condition';
+  }
+
+  /**
+   * The number of tasks currently waiting to be notified.
+   *
+   * @returns The count of waiting tasks.
+   */
+  public get waitingCount() {
+    return this.m_waiters.length;
+  }
+
+  /**
+   * Releases the lock, waits to be notified, and re-acquires the lock.
+   * The released handle must not be used again; use the returned one instead.
+   *
+   * @param held - The handle of the lock, as returned by `obtain()`, `lock()`, `obtainWrite()` or
+   *   `lockWrite()`.
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout covering both the
+   *   wait and the re-acquisition.
+   * @returns A promise resolving to a handle of the same kind, holding the lock again.
+   * @throws {LockTimeoutError} If `timeoutMs` elapses first. The lock is not held then, and
+   *   releasing the previous handle again does nothing.
+   */
+  public async wait<H extends ConditionHeldLock>(held: H, options: AcquireOptions = {}): Promise<H> {
+    const { signal, timeoutMs } = options;
+    signal?.throwIfAborted();
+    let waiter!: ConditionWaiter;
+    const notified = new Promise<void>(resolve => (waiter = { notified: false, resolve }));
+    // Queued before the release: a notification from the next holder always finds us
+    this.m_waiters.push(waiter);
+    if (typeof held === 'function') held();
+    else held[Symbol.dispose]();
+
+    const cancel = cancellation(signal, timeoutMs, ms => new LockTimeoutError(this.name, ms));
+    // The re-acquisition is abandoned by the same signal or timeout
+    const controller = cancel === null ? undefined : new AbortController();
+    cancel?.promise.catch((error: unknown) => controller!.abort(error));
+    try {
+      try {
+        await race(notified, cancel);
+      } catch (error) {
+        if (waiter.notified) {
+          // Notified while the rejection was in flight: pass the notification on
+          this.notify();
+        } else {
+          this.m_waiters.splice(this.m_waiters.indexOf(waiter), 1);
+        }
+        throw error;
+      }
+      return await this.reacquire(held, controller?.signal);
+    } finally {
+      cancel?.dispose();
+    }
+  }
+
+  /**
+   * Waits until the predicate holds, checking it with the lock held: right away, then after every
+   * notification. Returns at once if it already holds.
+   *
+   * @param held - The handle of the lock, see {@link wait}.
+   * @param predicate - Checks the guarded state; called only while holding the lock.
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout for the whole wait.
+   * @returns A promise resolving to a handle holding the lock, with the predicate true.
+   * @throws {LockTimeoutError} If `timeoutMs` elapses before the predicate holds.
+   */
+  public async waitFor<H extends ConditionHeldLock>(
+    held: H,
+    predicate: () => boolean,
+    options: AcquireOptions = {},
+  ): Promise<H> {
+    const { signal, timeoutMs } = options;
+    const startedAt = performance.now();
+    while (!predicate()) {
+      const remainingMs = timeoutMs === undefined ? undefined : timeoutMs - (performance.now() - startedAt);
+      try {
+        held = await this.wait(held, {
+          signal,
+          timeoutMs: remainingMs === undefined ? undefined : Math.max(0, remainingMs),
+        });
+      } catch (error) {
+        // Report the timeout the caller asked for, not what was left of it
+        if (error instanceof LockTimeoutError) throw new LockTimeoutError(this.name, timeoutMs!);
+        throw error;
+      }
+    }
+    return held;
+  }
+
+  /**
+   * Wakes the task that has waited the longest, if any.
+   * Call it while holding the lock, right after changing the state the waiters check.
+   *
+   * @returns true if a waiting task was woken, false if nobody was waiting.
+   */
+  public notify() {
+    const waiter = this.m_waiters.shift();
+    if (waiter === undefined) return false;
+    waiter.notified = true;
+    waiter.resolve();
+    return true;
+  }
+
+  /**
+   * Wakes every waiting task. They re-acquire the lock one at a time.
+   *
+   * @returns The number of tasks woken.
+   */
+  public notifyAll() {
+    const waiters = this.m_waiters.splice(0);
+    for (const waiter of waiters) {
+      waiter.notified = true;
+      waiter.resolve();
+    }
+    return waiters.length;
+  }
+
+  private async reacquire<H extends ConditionHeldLock>(held: H, signal: AbortSignal | undefined): Promise<H> {
+    const options = { signal };
+    const mutex = this.mutex;
+    if (mutex instanceof Mutex) {
+      return (typeof held === 'function' ? await mutex.obtain(options) : await mutex.lock(options)) as H;
+    }
+    return (typeof held === 'function' ? await mutex.obtainWrite(options) : await mutex.lockWrite(options)) as H;
+  }
+}
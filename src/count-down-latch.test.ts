@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { CountDownLatch, LockTimeoutError, timeout } from '.';
+
+async function isOpened(latch: CountDownLatch) {
+  return await Promise.race([latch.gate.then(() => true), timeout(10).then(() => false)]);
+}
+
+describe('count-down-latch', { timeout: 10000 }, () => {
+  it.concurrent('opens once counted down to zero', async () => {
+    const latch = new CountDownLatch(3);
+    expect(latch.count).toBe(3);
+    expect(await isOpened(latch)).toBe(false);
+
+    latch.countDown();
+    latch.countDown();
+    expect(latch.count).toBe(1);
+    expect(latch.isOpen).toBe(false);
+    expect(await isOpened(latch)).toBe(false);
+
+    latch.countDown();
+    expect(latch.isOpen).toBe(true);
+    expect(await isOpened(latch)).toBe(true);
+
+    latch.countDown(5);
+    expect(latch.count).toBe(0);
+  });
+
+  it.concurrent('releases every waiter when events arrive concurrently', async () => {
+    const latch = new CountDownLatch(10);
+    let passed = 0;
+    const waiters = Array.from({ length: 5 }, async () => {
+      await latch.gate;
+      ++passed;
+    });
+    await Promise.all(
+      Array.from({ length: 10 }, async () => {
+        await timeout(Math.random() * 5);
+        expect(passed).toBe(0);
+        latch.countDown();
+      }),
+    );
+    await Promise.all(waiters);
+    expect(passed).toBe(5);
+  });
+
+  it.concurrent('counts down several events at once', async () => {
+    const latch = new CountDownLatch(5);
+    latch.countDown(3);
+    expect(latch.count).toBe(2);
+    latch.countDown(4);
+    expect(latch.count).toBe(0);
+    await latch.gate;
+    expect(() => latch.countDown(-1)).toThrow(RangeError);
+    expect(() => new CountDownLatch(1.5)).toThrow(RangeError);
+  });
+
+  it.concurrent('starts open with a zero count', async () => {
+    const latch = new CountDownLatch(0);
+    expect(latch.isOpen).toBe(true);
+    await latch.wait({ timeoutMs: 0 });
+  });
+
+  it.concurrent('waits with a timeout or a signal', async () => {
+    const latch = new CountDownLatch(1, { name: 'workers' });
+    await expect(latch.wait({ timeoutMs: 10 })).rejects.toThrow(new LockTimeoutError('workers', 10));
+    const controller = new AbortController();
+    const aborted = latch.wait({ signal: controller.signal });
+    controller.abort(new Error('stop'));
+    await expect(aborted).rejects.toThrow('stop');
+
+    const waiting = latch.wait({ timeoutMs: 1000 });
+    latch.countDown();
+    await waiting;
+  });
+
+  it.concurrent('resets the count', async () => {
+    const latch = new CountDownLatch(1);
+    latch.countDown();
+    latch.reset(2);
+    expect(latch.isOpen).toBe(false);
+    expect(await isOpened(latch)).toBe(false);
+
+    const waiting = latch.gate;
+    latch.countDown();
+    // Reset while waiters are pending: they wait for the new count
+    latch.reset(2);
+    latch.countDown();
+    expect(await Promise.race([waiting.then(() => true), timeout(10).then(() => false)])).toBe(false);
+    latch.countDown();
+    await waiting;
+
+    latch.reset(0);
+    expect(latch.isOpen).toBe(true);
+  });
+
+  it.concurrent('counts down when a use is disposed', async () => {
+    const latch = new CountDownLatch(2);
+    const jobs = [5, 10].map(async ms => {
+      using _ = latch.use();
+      await timeout(ms);
+    });
+    expect(latch.count).toBe(2);
+    await latch.gate;
+    await Promise.all(jobs);
+
+    latch.reset(2);
+    const use = latch.use();
+    use[Symbol.dispose]();
+    use[Symbol.dispose]();
+    expect(latch.count).toBe(1);
+  });
+});
@@ -0,0 +1,155 @@
+import { Latch, type WaitOptions } from './latch';
+import type { LockListener } from './metrics';
+
+/**
+ * Options accepted by the {@link CountDownLatch} constructor.
+ */
+export interface CountDownLatchOptions {
+  /** A name identifying the latch in errors and events. Defaults to `'CountDownLatch'`. */
+  name?: string;
+}
+
+function checkCount(count: number) {
+  if (!Number.isInteger(count) || count < 0) {
+    throw new RangeError(`Expected a non-negative integer count, got ${count}`);
+  }
+}
+
+/**
+ * A gate that opens once a number of events have happened. Where {@link Latch.use} keeps the
+ * gate closed while users are active, CountDownLatch starts with the number of events to wait
+ * for and opens when that many have been counted down, e.g. when every worker reported ready.
+ *
+ * Counting down below zero is ignored; the latch stays open until {@link reset}.
+ *
+ * @example
+ * ```typescript
+ * const ready = new CountDownLatch(workers.length);
+ * for (const worker of workers) worker.once('ready', () => ready.countDown());
+ * await ready.wait({ timeoutMs: 10000 });
+ * ```
+ */
+export class CountDownLatch {
+  private readonly m_latch: Latch;
+  private m_count = 0;
+
+  /**
+   * The name of the latch, as reported in errors and events.
+   */
+  public readonly name: string;
+
+  /**
+   * Initializes a new CountDownLatch, open right away if the count is 0.
+   *
+   * @param count - The number of events to wait for.
+   * @param options - Optional settings, such as a name used in errors and events.
+   * @throws {RangeError} If the count is not a non-negative integer.
+   */
+  public constructor(count: number, options: CountDownLatchOptions = {}) {
+    this.name = options.name ?? 'CountDownLatch';
+    this.m_latch = new Latch({ name: this.name });
+    this.reset(count);
+  }
+
+  /**
+   * The number of events still to happen before the latch opens.
+   *
+   * @returns The remaining count, 0 once open.
+   */
+  public get count() {
+    return this.m_count;
+  }
+
+  /**
+   * Whether the count has reached zero.
+   *
+   * @returns true if the latch is open, false otherwise.
+   */
+  public get isOpen() {
+    return this.m_count === 0;
+  }
+
+  /**
+   * Gets a promise that resolves once the count reaches zero.
+   *
+   * @returns A promise that resolves with void when the latch is open.
+   */
+  public get gate(): Promise<void> {
+    return this.m_latch.gate;
+  }
+
+  /**
+   * Starts calling the listener whenever the latch opens or is reset closed, see {@link Latch.observe}.
+   *
+   * @param listener - The function receiving the events.
+   * @returns A function that stops the listener.
+   */
+  public observe(listener: LockListener) {
+    return this.m_latch.observe(listener);
+  }
+
+  /**
+   * Waits until the count reaches zero, like {@link gate}, but can give up.
+   *
+   * @param options - Options such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise that resolves when the latch is open.
+   * @throws {LockTimeoutError} If `timeoutMs` elapses before the latch opens.
+   */
+  public wait(options: WaitOptions = {}) {
+    return this.m_latch.wait(options);
+  }
+
+  /**
+   * Records that events happened, opening the latch if none remain.
+   *
+   * @param n - The number of events. Defaults to 1.
+   * @throws {RangeError} If n is not a non-negative integer.
+   */
+  public countDown(n = 1) {
+    checkCount(n);
+    if (this.m_count === 0) return;
+    this.m_count = Math.max(0, this.m_count - n);
+    if (this.m_count === 0) this.m_latch.open();
+  }
+
+  /**
+   * Starts counting again from the given count, closing the latch unless it is 0.
+   * Tasks waiting on the gate keep waiting for the new count.
+   *
+   * @param count - The number of events to wait for.
+   * @throws {RangeError} If the count is not a non-negative integer.
+   */
+  public reset(count: number) {
+    checkCount(count);
+    this.m_count = count;
+    if (count === 0) this.m_latch.open();
+    else if (this.m_latch.isOpen) this.m_latch.close();
+  }
+
+  /**
+   * Returns a disposable that counts down once when disposed, for one event tied to a scope.
+   *
+   * @returns A disposable object; disposing it again does nothing.
+   * @example
+   * ```typescript
+   * const done = new CountDownLatch(jobs.length);
+   * for (const job of jobs) {
+   *   void (async () => {
+   *     using _ = done.use();
+   *     await job.run();
+   *   })();
+   * }
+   * await done.gate;
+   * ```
+   */
+  public use() {
+    let disposed = false;
+    return {
+      [Symbol.dispose]: () => {
+        if (disposed) return;
+        disposed = true;
+        this.countDown();
+      },
+    };
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { BrokenBarrierError, CyclicBarrier, LockTimeoutError, timeout } from '.';
+
+describe('cyclic-barrier', { timeout: 10000 }, () => {
+  it.concurrent('keeps parties in step across generations', async () => {
+    const parties = 4;
+    const phases = 5;
+    const trips: number[] = [];
+    const barrier = new CyclicBarrier(parties, generation => void trips.push(generation));
+    const done = Array.from({ length: parties }, () => 0);
+
+    await Promise.all(
+      done.map(async (_, party) => {
+        for (let phase = 0; phase < phases; ++phase) {
+          await timeout(Math.random() * 5);
+          // Nobody is more than one phase ahead of anybody else
+          expect(Math.min(...done)).toBe(phase);
+          ++done[party];
+          expect(await barrier.arrive()).toBe(phase);
+        }
+      }),
+    );
+    expect(trips).toEqual([0, 1, 2, 3, 4]);
+    expect(barrier.generation).toBe(phases);
+    expect(barrier.waitingCount).toBe(0);
+  });
+
+  it.concurrent('resolves every party together after the trip callback', async () => {
+    const order: string[] = [];
+    const barrier = new CyclicBarrier(3, async () => {
+      await timeout(5);
+      order.push('trip');
+    });
+    const arrivals = [0, 1, 2].map(async party => {
+      await timeout(party * 5);
+      await barrier.arrive();
+      order.push(`party ${party}`);
+    });
+    await timeout(7);
+    expect(barrier.waitingCount).toBe(2);
+    await Promise.all(arrivals);
+    expect(order[0]).toBe('trip');
+    expect(order).toHaveLength(4);
+  });
+
+  it.concurrent('breaks when a party times out', async () => {
+    const barrier = new CyclicBarrier(3, undefined, { name: 'step' });
+    const patient = barrier.arrive();
+    const impatient = barrier.arrive({ timeoutMs: 10 });
+    await expect(impatient).rejects.toThrow(new LockTimeoutError('step', 10));
+    await expect(patient).rejects.toThrow(BrokenBarrierError);
+    await expect(patient).rejects.toMatchObject({ cause: new LockTimeoutError('step', 10) });
+    expect(barrier.isBroken).toBe(true);
+    await expect(barrier.arrive()).rejects.toThrow('Barrier "step" is broken');
+
+    barrier.reset();
+    expect(barrier.isBroken).toBe(false);
+    const arrivals = [barrier.arrive(), barrier.arrive(), barrier.arrive()];
+    expect(await Promise.all(arrivals)).toEqual([1, 1, 1]);
+  });
+
+  it.concurrent('breaks when a party aborts', async () => {
+    const barrier = new CyclicBarrier(2);
+    const controller = new AbortController();
+    const aborted = barrier.arrive({ signal: controller.signal });
+    controller.abort(new Error('stop'));
+    await expect(aborted).rejects.toThrow('stop');
+    expect(barrier.isBroken).toBe(true);
+    await expect(barrier.arrive({ signal: controller.signal })).rejects.toThrow('stop');
+  });
+
+  it.concurrent('breaks when the trip callback fails', async () => {
+    const barrier = new CyclicBarrier(2, () => {
+      throw new Error('boom');
+    });
+    const waiting = barrier.arrive();
+    await expect(barrier.arrive()).rejects.toThrow('boom');
+    await expect(waiting).rejects.toMatchObject({ name: 'BrokenBarrierError', cause: new Error('boom') });
+    expect(barrier.isBroken).toBe(true);
+  });
+
+  it.concurrent('stays broken when a party gives up during the trip callback', async () => {
+    const barrier = new CyclicBarrier(2, async () => void (await timeout(30)));
+    const impatient = barrier.arrive({ timeoutMs: 10 });
+    await timeout(5);
+    const last = barrier.arrive();
+    await expect(impatient).rejects.toThrow(LockTimeoutError);
+    await expect(last).rejects.toThrow(BrokenBarrierError);
+    expect(barrier.isBroken).toBe(true);
+    await expect(barrier.arrive()).rejects.toThrow(BrokenBarrierError);
+
+    barrier.reset();
+    expect(barrier.isBroken).toBe(false);
+  });
+
+  it.concurrent('rejects waiting parties on reset', async () => {
+    const barrier = new CyclicBarrier(2);
+    const waiting = barrier.arrive();
+    barrier.reset();
+    await expect(waiting).rejects.toThrow(BrokenBarrierError);
+    expect(barrier.isBroken).toBe(false);
+    expect(barrier.generation).toBe(1);
+    expect(await Promise.all([barrier.arrive(), barrier.arrive()])).toEqual([1, 1]);
+    expect(() => new CyclicBarrier(0)).toThrow(RangeError);
+  });
+
+  it.concurrent('trips right away for a single party', async () => {
+    const barrier = new CyclicBarrier(1);
+    expect(await barrier.arrive()).toBe(0);
+    expect(await barrier.arrive()).toBe(1);
+  });
+});
@@ -0,0 +1,191 @@
+import { cancellation, race } from './cancellation';
+import { BrokenBarrierError, LockTimeoutError } from './errors';
+import type { WaitOptions } from './latch';
+
+/**
+ * Options accepted by the {@link CyclicBarrier} constructor.
+ */
+export interface CyclicBarrierOptions {
+  /** A name identifying the barrier in errors. Defaults to `'CyclicBarrier'`. */
+  name?: string;
+}
+
+interface Generation {
+  readonly index: number;
+  arrived: number;
+  state: 'waiting' | 'tripped' | 'broken';
+  readonly tripped: Promise<number>;
+  trip(): void;
+  break(error: BrokenBarrierError): void;
+}
+
+function ignore() {
+  return;
+}
+
+function createGeneration(index: number): Generation {
+  let resolve!: (index: number) => void;
+  let reject!: (error: unknown) => void;
+  const tripped = new Promise<number>((res, rej) => ((resolve = res), (reject = rej)));
+  // A generation broken by a reset may have nobody waiting on it
+  tripped.catch(ignore);
+  const generation: Generation = {
+    index,
+    arrived: 0,
+    state: 'waiting',
+    tripped,
+    trip: () => {
+      generation.state = 'tripped';
+      resolve(index);
+    },
+    break: error => {
+      generation.state = 'broken';
+      reject(error);
+    },
+  };
+  return generation;
+}
+
+/**
+ * A rendezvous point for a fixed number of parties, reusable round after round. Each party calls
+ * {@link arrive} when done with the current phase; the last one to arrive runs the optional trip
+ * callback, then every party resumes together and the barrier starts the next generation.
+ *
+ * If a party gives up waiting through an abort signal or a timeout, the others could wait forever:
+ * the barrier breaks instead, rejecting every waiting party and every later arrival with
+ * {@link BrokenBarrierError} until {@link reset}.
+ *
+ * @example
+ * ```typescript
+ * const step = new CyclicBarrier(workers.length, generation => publish(generation));
+ *
+ * async function work(worker: Worker) {
+ *   for (;;) {
+ *     await worker.simulate();
+ *     await step.arrive({ timeoutMs: 10000 }); // no worker starts the next step early
+ *   }
+ * }
+ * ```
+ */
+export class CyclicBarrier {
+  private m_generation = createGeneration(0);
+
+  /**
+   * The name of the barrier, as reported in errors.
+   */
+  public readonly name: string;
+
+  /**
+   * Initializes a new CyclicBarrier at generation 0.
+   *
+   * @param parties - The number of parties that must arrive to trip the barrier.
+   * @param onTrip - Called by the last party to arrive with the generation number, before the
+   *   parties resume. If it throws or rejects, the barrier breaks.
+   * @param options - Optional settings, such as a name used in error messages.
+   * @throws {RangeError} If parties is not a positive integer.
+   */
+  public constructor(
+    public readonly parties: number,
+    private readonly m_onTrip?: (generation: number) => void | Promise<void>,
+    options: CyclicBarrierOptions = {},
+  ) {
+    if (!Number.isInteger(parties) || parties < 1) {
+      throw new RangeError(`Expected a positive integer number of parties, got ${parties}`);
+    }
+    this.name = options.name ?? 'CyclicBarrier';
+  }
+
+  /**
+   * The number of the current generation, incremented every time the barrier trips or is reset.
+   *
+   * @returns The current generation number, starting at 0.
+   */
+  public get generation() {
+    return this.m_generation.index;
+  }
+
+  /**
+   * The number of parties that have arrived in the current generation and are waiting.
+   *
+   * @returns The count of waiting parties.
+   */
+  public get waitingCount() {
+    return this.m_generation.arrived;
+  }
+
+  /**
+   * Whether the barrier is broken and rejects arrivals until {@link reset}.
+   *
+   * @returns true if the barrier is broken, false otherwise.
+   */
+  public get isBroken() {
+    return this.m_generation.state === 'broken';
+  }
+
+  /**
+   * Arrives at the barrier and waits for the other parties of the generation.
+   * Giving up through the signal or the timeout breaks the barrier for everyone.
+   *
+   * @param options - Options such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise resolving to the number of the generation that tripped.
+   * @throws {BrokenBarrierError} If the barrier is or gets broken while waiting.
+   * @throws {LockTimeoutError} If `timeoutMs` elapses before every party arrived.
+   */
+  public async arrive(options: WaitOptions = {}): Promise<number> {
+    const { signal, timeoutMs } = options;
+    signal?.throwIfAborted();
+    const generation = this.m_generation;
+    if (generation.state === 'broken') throw new BrokenBarrierError(this.name);
+    if (++generation.arrived === this.parties) return await this.trip(generation);
+
+    const cancel = cancellation(signal, timeoutMs, ms => new LockTimeoutError(this.name, ms));
+    try {
+      return await race(generation.tripped, cancel);
+    } catch (error) {
+      // Tripped while the rejection was in flight: the rendezvous happened after all
+      if (generation.state === 'tripped') return generation.index;
+      if (generation.state === 'waiting') generation.break(new BrokenBarrierError(this.name, error));
+      throw error;
+    } finally {
+      cancel?.dispose();
+    }
+  }
+
+  /**
+   * Breaks the current generation, rejecting its waiting parties with {@link BrokenBarrierError},
+   * and starts a new one that is not broken.
+   */
+  public reset() {
+    const generation = this.m_generation;
+    if (generation.state === 'waiting') generation.break(new BrokenBarrierError(this.name));
+    this.m_generation = createGeneration(generation.index + 1);
+  }
+
+  private async trip(generation: Generation) {
+    // Parties arriving while the callback runs already belong to the next generation
+    const next = createGeneration(generation.index + 1);
+    this.m_generation = next;
+    try {
+      await this.m_onTrip?.(generation.index);
+    } catch (error) {
+      generation.break(new BrokenBarrierError(this.name, error));
+      this.breakUnlessReset(next, error);
+      throw error;
+    }
+    // A party gave up while the callback ran
+    if (generation.state === 'broken') {
+      this.breakUnlessReset(next);
+      throw new BrokenBarrierError(this.name);
+    }
+    generation.trip();
+    return generation.index;
+  }
+
+  /**
+   * Breaks the generation started by a trip, so the barrier stays broken, unless a reset
+   * already replaced it.
+   */
+  private breakUnlessReset(next: Generation, cause?: unknown) {
+    if (this.m_generation === next) next.break(new BrokenBarrierError(this.name, cause));
+  }
+}
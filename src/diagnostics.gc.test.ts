@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { type LockReport, Mutex, MutexRW, timeout } from '.';
+
+const { gc } = globalThis;
+if (gc === undefined) throw new Error('Garbage collection tests need --expose-gc, see vitest.config.ts');
+
+function collector() {
+  const reports: LockReport[] = [];
+  return { reports, onReport: (report: LockReport) => void reports.push(report) };
+}
+
+describe('diagnostics', { timeout: 10000 }, () => {
+  it.concurrent('reports release handles collected without release', async () => {
+    const { reports, onReport } = collector();
+    const diagnostics = { holdThresholdMs: Infinity, onReport };
+    const mutex = new Mutex({ name: 'leaky', diagnostics });
+    const mutexRW = new MutexRW({ diagnostics });
+    await (async () => {
+      await mutex.obtain({ label: 'forgotten' });
+    })();
+    (await mutexRW.obtainRead())();
+    for (let i = 0; i < 20 && reports.length === 0; ++i) {
+      gc();
+      await timeout(10);
+    }
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toMatchObject({
+      kind: 'leaked',
+      acquisition: { lockName: 'leaky', label: 'forgotten' },
+    });
+    expect(reports[0].kind === 'leaked' && reports[0].acquisition.stack).toContain('diagnostics.gc.test');
+    expect(mutex.isLocked).toBe(true);
+  });
+});
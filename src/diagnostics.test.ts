@@ -0,0 +1,184 @@
+import { describe, expect, it, vi } from 'vitest';
+import { type LockReport, Mutex, MutexRW, timeout } from '.';
+
+function collector() {
+  const reports: LockReport[] = [];
+  return { reports, onReport: (report: LockReport) => void reports.push(report) };
+}
+
+describe('diagnostics', { timeout: 10000 }, () => {
+  it.concurrent('reports a long wait with its label and stack', async () => {
+    const { reports, onReport } = collector();
+    const mutex = new Mutex({
+      name: 'db',
+      diagnostics: { waitThresholdMs: 20, holdThresholdMs: Infinity, onReport },
+    });
+    const release = await mutex.obtain({ label: 'first' });
+    const second = mutex.obtain({ label: 'second' });
+    await timeout(50);
+    expect(reports).toHaveLength(1);
+    const [report] = reports;
+    expect(report.kind).toBe('long-wait');
+    if (report.kind !== 'long-wait') return;
+    expect(report.acquisition).toMatchObject({ lockName: 'db', mode: 'exclusive', label: 'second' });
+    expect(report.acquisition.stack).toContain('diagnostics.test');
+    expect(report.durationMs).toBeGreaterThanOrEqual(19);
+    expect(report.message).toContain('"second"');
+
+    release();
+    (await second)();
+    expect(reports).toHaveLength(1);
+  });
+
+  it.concurrent('reports a long hold, but not a lock released in time', async () => {
+    const { reports, onReport } = collector();
+    const mutex = new MutexRW({ diagnostics: { holdThresholdMs: 20, onReport } });
+    const releaseQuick = await mutex.obtainRead({ label: 'quick' });
+    releaseQuick();
+    const releaseSlow = await mutex.obtainWrite({ label: 'slow' });
+    await timeout(50);
+    releaseSlow();
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toMatchObject({
+      kind: 'long-hold',
+      acquisition: { lockName: 'MutexRW', mode: 'write', label: 'slow' },
+    });
+  });
+
+  it.concurrent('does not report waits that end before the threshold', async () => {
+    const { reports, onReport } = collector();
+    const mutex = new Mutex({ diagnostics: { waitThresholdMs: 100, holdThresholdMs: 100, onReport } });
+    await Promise.all(
+      [1, 2, 3].map(async () => {
+        using _ = await mutex.lock();
+        await timeout(5);
+      }),
+    );
+    await timeout(110);
+    expect(reports).toEqual([]);
+  });
+
+  it.concurrent('detects a wait-for cycle between two locks', async () => {
+    const { reports, onReport } = collector();
+    const diagnostics = { waitThresholdMs: Infinity, holdThresholdMs: Infinity, onReport };
+    const a = new Mutex({ name: 'a', diagnostics });
+    const b = new Mutex({ name: 'b', diagnostics });
+    const cross = (first: Mutex, second: Mutex) =>
+      first.runExclusive(async () => {
+        await timeout(10);
+        using _ = await second.lock({ timeoutMs: 50, label: `${first.name} then ${second.name}` });
+      });
+    const results = await Promise.allSettled([cross(a, b), cross(b, a)]);
+    expect(results.some(result => result.status === 'rejected')).toBe(true);
+
+    expect(reports).toHaveLength(1);
+    const [report] = reports;
+    expect(report.kind).toBe('deadlock');
+    if (report.kind !== 'deadlock') return;
+    expect(report.cycle.map(acquisition => acquisition.lockName).sort()).toEqual(['a', 'b']);
+    expect(report.cycle.map(acquisition => acquisition.label).sort()).toEqual(['a then b', 'b then a']);
+    expect(report.message).toContain('Deadlock');
+  });
+
+  it.concurrent('detects a chain waiting for a lock it already holds', async () => {
+    const { reports, onReport } = collector();
+    const mutex = new Mutex({ name: 'self', diagnostics: { onReport } });
+    await mutex.runExclusive(async () => {
+      await expect(mutex.obtain({ timeoutMs: 20, label: 'nested' })).rejects.toThrow();
+    });
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toMatchObject({
+      kind: 'deadlock',
+      cycle: [{ lockName: 'self', label: 'nested' }],
+    });
+  });
+
+  it.concurrent('detects cycles across Mutex and MutexRW', async () => {
+    const { reports, onReport } = collector();
+    const diagnostics = { waitThresholdMs: Infinity, holdThresholdMs: Infinity, onReport };
+    const table = new MutexRW({ name: 'table', diagnostics });
+    const row = new Mutex({ name: 'row', diagnostics });
+    const reader = () =>
+      table.runRead(async () => {
+        await timeout(10);
+        using _ = await row.lock({ timeoutMs: 50 });
+      });
+    const writer = () =>
+      row.runExclusive(async () => {
+        await timeout(10);
+        await table.runWrite(() => undefined, { timeoutMs: 50 });
+      });
+    await Promise.allSettled([reader(), writer()]);
+    expect(reports).toHaveLength(1);
+    expect(reports[0].kind).toBe('deadlock');
+  });
+
+  it.concurrent('does not report contention between independent tasks as a deadlock', async () => {
+    const { reports, onReport } = collector();
+    const diagnostics = { waitThresholdMs: Infinity, holdThresholdMs: Infinity, onReport };
+    const a = new Mutex({ diagnostics });
+    const b = new MutexRW({ diagnostics });
+    await Promise.all(
+      Array.from({ length: 10 }, async (_, i) => {
+        using _a = await a.lock();
+        await timeout(1);
+        using _b = i % 2 ? await b.lockRead() : await b.lockWrite();
+        await timeout(1);
+      }),
+    );
+    expect(reports).toEqual([]);
+  });
+
+  it.concurrent('reports a deadlock between plain acquisitions only as long waits', async () => {
+    const { reports, onReport } = collector();
+    const diagnostics = { waitThresholdMs: 20, holdThresholdMs: Infinity, onReport };
+    const a = new Mutex({ name: 'a', diagnostics });
+    const b = new Mutex({ name: 'b', diagnostics });
+    // Not run through runExclusive: the two holders are not known as call chains
+    const cross = async (first: Mutex, second: Mutex) => {
+      using _ = await first.lock();
+      await timeout(10);
+      using _second = await second.lock({ timeoutMs: 50 });
+    };
+    const results = await Promise.allSettled([cross(a, b), cross(b, a)]);
+    expect(results.some(result => result.status === 'rejected')).toBe(true);
+    expect(reports.map(report => report.kind)).toEqual(['long-wait', 'long-wait']);
+  });
+
+  it.concurrent('does not report the caller of a holder it did not await', async () => {
+    const { reports, onReport } = collector();
+    const diagnostics = { waitThresholdMs: Infinity, holdThresholdMs: Infinity, onReport };
+    const mutex = new Mutex({ diagnostics });
+    const holder = (async () => {
+      const release = await mutex.obtain();
+      await timeout(30);
+      release();
+    })();
+    const scoped = mutex.runExclusive(() => timeout(30));
+    await timeout(5);
+    (await mutex.obtain({ label: 'caller' }))();
+    await mutex.runExclusive(() => undefined);
+    await Promise.all([holder, scoped]);
+    expect(reports).toEqual([]);
+  });
+
+  it('stays silent when diagnostics are off', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    try {
+      const mutex = new Mutex();
+      await mutex.runExclusive(async () => {
+        await expect(mutex.obtain({ timeoutMs: 20, label: 'ignored' })).rejects.toThrow();
+      });
+      expect(warn).not.toHaveBeenCalled();
+
+      // The same wait with diagnostics on does get logged
+      const diagnosed = new Mutex({ diagnostics: { waitThresholdMs: 5 } });
+      await diagnosed.runExclusive(async () => {
+        await expect(diagnosed.obtain({ timeoutMs: 20, label: 'logged' })).rejects.toThrow();
+      });
+      expect(warn).toHaveBeenCalled();
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
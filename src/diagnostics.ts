@@ -0,0 +1,286 @@
+import { createAsyncLocalStorage } from './async-context';
+
+/**
+ * How an instrumented acquisition holds its lock: `'exclusive'` for {@link Mutex},
+ * the kind of lock for {@link MutexRW}.
+ */
+export type LockMode = 'exclusive' | 'read' | 'upgradable' | 'write';
+
+/**
+ * Describes one acquisition of an instrumented lock, as carried by a {@link LockReport}.
+ */
+export interface LockAcquisition {
+  /** The name of the lock. */
+  readonly lockName: string;
+  /** How the lock is or would be held. */
+  readonly mode: LockMode;
+  /** The label passed to the acquisition method, if any. */
+  readonly label: string | undefined;
+  /** The stack trace of the call that requested the lock. */
+  readonly stack: string;
+}
+
+/**
+ * A problem found by the diagnostics mode of {@link Mutex} or {@link MutexRW}.
+ *
+ * - `'long-wait'`: an acquisition has been waiting longer than `waitThresholdMs`.
+ * - `'long-hold'`: a lock has been held longer than `holdThresholdMs` without being released.
+ * - `'leaked'`: the release handle of a held lock was garbage-collected, so the lock can never
+ *   be released again.
+ * - `'deadlock'`: a cycle of call chains, each waiting for a lock another one in the cycle holds.
+ *   `cycle` lists the waiting acquisitions in order; the last one waits for the first one's chain.
+ *   A call chain is the callback of `runExclusive()`, `runRead()` or `runWrite()`; acquisitions
+ *   made outside one are not linked to each other, and only show up as long waits.
+ */
+export type LockReport =
+  | {
+      readonly kind: 'leaked';
+      readonly message: string;
+      readonly acquisition: LockAcquisition;
+    }
+  | {
+      readonly kind: 'long-wait' | 'long-hold';
+      readonly message: string;
+      readonly acquisition: LockAcquisition;
+      readonly durationMs: number;
+    }
+  | {
+      readonly kind: 'deadlock';
+      readonly message: string;
+      readonly cycle: readonly LockAcquisition[];
+    };
+
+/**
+ * Settings for the opt-in `diagnostics` mode of {@link Mutex} and {@link MutexRW}.
+ */
+export interface LockDiagnosticsOptions {
+  /** Reports acquisitions waiting longer than this. Defaults to 10000; `Infinity` turns it off. */
+  waitThresholdMs?: number;
+  /** Reports locks held longer than this. Defaults to 10000; `Infinity` turns it off. */
+  holdThresholdMs?: number;
+  /**
+   * Whether to look for wait-for cycles between instrumented locks. Defaults to true.
+   * Only covers call chains run through `runExclusive()`, `runRead()` or `runWrite()`.
+   */
+  detectDeadlocks?: boolean;
+  /** Whether to report release handles garbage-collected while holding the lock. Defaults to true. */
+  detectLeaks?: boolean;
+  /** Receives every report. Defaults to logging the report message with `console.warn`. */
+  onReport?: (report: LockReport) => void;
+}
+
+type Timer = ReturnType<typeof setTimeout>;
+
+/**
+ * Identifies one call chain, shared by the acquisitions it makes.
+ */
+type Owner = object;
+
+// Call chains are told apart by a token in the async context, shared by every instrumented lock
+const owners = createAsyncLocalStorage<Owner>();
+// What each call chain is currently waiting for, across all instrumented locks
+const waitsByOwner = new Map<Owner, Set<TrackedAcquisition>>();
+
+/**
+ * Runs the callback as a call chain of its own, unless it already runs inside one. Acquisitions made
+ * while it runs, including by tasks it starts, are linked for deadlock detection.
+ *
+ * The chain is only ever entered through `run()`: marking the context of an async function would
+ * mark its caller too, and a caller that did not await a holder would pass for it.
+ */
+export function runInCallChain<T>(callback: () => T): T {
+  if (owners === null || owners.getStore() !== undefined) return callback();
+  return owners.run({}, callback);
+}
+
+function currentOwner(): Owner {
+  // Outside a chain every acquisition stands alone, and cannot be part of a cycle
+  return owners?.getStore() ?? {};
+}
+
+function describe(acquisition: LockAcquisition) {
+  const label = acquisition.label === undefined ? '' : ` "${acquisition.label}"`;
+  return `${acquisition.mode} lock${label} on "${acquisition.lockName}"`;
+}
+
+function startTimer(thresholdMs: number, callback: () => void): Timer | undefined {
+  if (!(thresholdMs < Infinity)) return undefined;
+  const timer = setTimeout(callback, Math.min(2147483647, thresholdMs));
+  // Diagnostics alone must not keep the process alive
+  timer.unref?.();
+  return timer;
+}
+
+// Held value and unregister token are the acquisition itself, which never references its handle
+const leaks = new FinalizationRegistry<TrackedAcquisition>(acquisition => acquisition.leaked());
+
+function reportStub(report: LockReport) {
+  console.warn(report.message);
+}
+
+/**
+ * Tracks the acquisitions of one lock for its diagnostics mode.
+ */
+export class LockDiagnostics {
+  /** The acquisitions currently holding the lock. */
+  public readonly holds = new Set<TrackedAcquisition>();
+  public readonly waitThresholdMs: number;
+  public readonly holdThresholdMs: number;
+  public readonly detectDeadlocks: boolean;
+  public readonly detectLeaks: boolean;
+  public readonly onReport: (report: LockReport) => void;
+
+  public constructor(
+    public readonly lockName: string,
+    options: LockDiagnosticsOptions,
+  ) {
+    this.waitThresholdMs = options.waitThresholdMs ?? 10000;
+    this.holdThresholdMs = options.holdThresholdMs ?? 10000;
+    this.detectDeadlocks = options.detectDeadlocks ?? true;
+    this.detectLeaks = options.detectLeaks ?? true;
+    this.onReport = options.onReport ?? reportStub;
+  }
+
+  /**
+   * Creates the tracker for the given constructor option, or null when diagnostics are off.
+   */
+  public static create(lockName: string, options: boolean | LockDiagnosticsOptions | undefined) {
+    if (options === undefined || options === false) return null;
+    return new LockDiagnostics(lockName, options === true ? {} : options);
+  }
+
+  /**
+   * Records a new acquisition attempt. Must run synchronously in the caller's async context.
+   */
+  public begin(mode: LockMode, label: string | undefined) {
+    return new TrackedAcquisition(this, currentOwner(), {
+      lockName: this.lockName,
+      mode,
+      label,
+      // Drop the "Error" line, keep the frames
+      stack: (new Error().stack ?? '').split('\n').slice(1).join('\n'),
+    });
+  }
+}
+
+/**
+ * One acquisition of an instrumented lock, from the request until the release.
+ */
+export class TrackedAcquisition {
+  private m_timer: Timer | undefined;
+  private m_isWaiting = false;
+  private m_isHeld = false;
+
+  public constructor(
+    private readonly m_lock: LockDiagnostics,
+    private readonly m_owner: Owner,
+    public readonly info: LockAcquisition,
+  ) {}
+
+  /**
+   * Marks the acquisition as queued: starts the wait timer and looks for a wait-for cycle.
+   */
+  public waiting() {
+    this.m_isWaiting = true;
+    let waits = waitsByOwner.get(this.m_owner);
+    if (waits === undefined) waitsByOwner.set(this.m_owner, (waits = new Set()));
+    waits.add(this);
+    const startedAt = Date.now();
+    this.m_timer = startTimer(this.m_lock.waitThresholdMs, () => {
+      const durationMs = Date.now() - startedAt;
+      this.m_lock.onReport({
+        kind: 'long-wait',
+        message: `Waited for ${describe(this.info)} for ${durationMs}ms, possible deadlock\n${this.info.stack}`,
+        acquisition: this.info,
+        durationMs,
+      });
+    });
+    if (this.m_lock.detectDeadlocks) this.detectCycle();
+  }
+
+  /**
+   * Marks the acquisition as holding the lock.
+   *
+   * @param handle - What the caller releases the lock through; watched for leaks.
+   */
+  public acquired(handle: object) {
+    this.stopWaiting();
+    if (this.m_lock.detectLeaks) leaks.register(handle, this, this);
+    this.m_isHeld = true;
+    this.m_lock.holds.add(this);
+    const startedAt = Date.now();
+    this.m_timer = startTimer(this.m_lock.holdThresholdMs, () => {
+      const durationMs = Date.now() - startedAt;
+      this.m_lock.onReport({
+        kind: 'long-hold',
+        message: `Holding ${describe(this.info)} for ${durationMs}ms without release\n${this.info.stack}`,
+        acquisition: this.info,
+        durationMs,
+      });
+    });
+  }
+
+  /** Marks the acquisition as given up before it got the lock. */
+  public abandoned() {
+    this.stopWaiting();
+  }
+
+  /** Marks the lock as released by this acquisition. */
+  public released() {
+    if (!this.m_isHeld) return;
+    this.m_isHeld = false;
+    leaks.unregister(this);
+    clearTimeout(this.m_timer);
+    this.m_lock.holds.delete(this);
+  }
+
+  /** Called once the handle of a held lock has been garbage-collected. */
+  public leaked() {
+    if (!this.m_isHeld) return;
+    clearTimeout(this.m_timer);
+    this.m_lock.onReport({
+      kind: 'leaked',
+      message: `Lost the release handle of ${describe(this.info)} while held\n${this.info.stack}`,
+      acquisition: this.info,
+    });
+  }
+
+  private stopWaiting() {
+    clearTimeout(this.m_timer);
+    if (!this.m_isWaiting) return;
+    this.m_isWaiting = false;
+    const waits = waitsByOwner.get(this.m_owner)!;
+    waits.delete(this);
+    if (waits.size === 0) waitsByOwner.delete(this.m_owner);
+  }
+
+  /**
+   * Follows the wait-for graph from this acquisition: it waits for the holders of its lock,
+   * who may in turn wait for other locks. Reaching our own call chain again means a deadlock.
+   */
+  private detectCycle() {
+    const visited = new Set<Owner>();
+    const path: TrackedAcquisition[] = [];
+    const visit = (waiting: TrackedAcquisition): boolean => {
+      path.push(waiting);
+      for (const hold of waiting.m_lock.holds) {
+        if (hold.m_owner === this.m_owner) return true;
+        if (visited.has(hold.m_owner)) continue;
+        visited.add(hold.m_owner);
+        for (const next of waitsByOwner.get(hold.m_owner) ?? []) {
+          if (visit(next)) return true;
+        }
+      }
+      path.pop();
+      return false;
+    };
+    if (!visit(this)) return;
+    const cycle = path.map(acquisition => acquisition.info);
+    const lines = cycle.map(acquisition => `  waiting for ${describe(acquisition)}\n${acquisition.stack}`);
+    this.m_lock.onReport({
+      kind: 'deadlock',
+      message: `Deadlock detected between ${cycle.length} lock acquisition(s):\n${lines.join('\n')}`,
+      cycle,
+    });
+  }
+}
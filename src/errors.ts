@@ -0,0 +1,100 @@
+/**
+ * Thrown when a lock could not be acquired within the `timeoutMs` given to an acquisition method.
+ * Carries the name of the lock and the timeout, so that the failing call site can be identified
+ * from logs without a stack trace.
+ *
+ * @example
+ * ```typescript
+ * const mutex = new Mutex({ name: 'cache' });
+ * try {
+ *   using _ = await mutex.lock({ timeoutMs: 500 });
+ *   await refreshCache();
+ * } catch (error) {
+ *   if (error instanceof LockTimeoutError) console.warn(error.message);
+ *   // Timed out after 500ms waiting for lock "cache"
+ * }
+ * ```
+ */
+export class LockTimeoutError extends Error {
+  public override readonly name = 'LockTimeoutError';
+
+  /**
+   * @param lockName - The name of the lock that was not acquired in time.
+   * @param timeoutMs - The timeout that elapsed, in milliseconds.
+   */
+  public constructor(
+    public readonly lockName: string,
+    public readonly timeoutMs: number,
+  ) {
+    super(`Timed out after ${timeoutMs}ms waiting for lock "${lockName}"`);
+  }
+}
+
+/**
+ * Thrown when a lock handle is used after its lock has been released, such as reading
+ * a {@link MutexCell} guard outside of the scope that locked it.
+ *
+ * @example
+ * ```typescript
+ * const cell = new MutexCell({ count: 0 });
+ * const guard = await cell.lock();
+ * guard.release();
+ * guard.value; // throws LockReleasedError
+ * ```
+ */
+export class LockReleasedError extends Error {
+  public override readonly name = 'LockReleasedError';
+
+  /**
+   * @param lockName - The name of the lock whose handle was used after release.
+   */
+  public constructor(public readonly lockName: string) {
+    super(`Lock "${lockName}" has already been released`);
+  }
+}
+
+/**
+ * The reason a lease's signal aborts with once the lease runs out, and the error thrown when
+ * an expired lease is renewed, or released under `strictRelease`. Expiry releases the lock,
+ * so the holder must stop touching the guarded state.
+ *
+ * @example
+ * ```typescript
+ * using lease = await mutex.lease(5000);
+ * await fetch(url, { signal: lease.signal }); // aborted if the lease expires
+ * ```
+ */
+export class LeaseExpiredError extends Error {
+  public override readonly name = 'LeaseExpiredError';
+
+  /**
+   * @param lockName - The name of the lock whose lease expired.
+   * @param durationMs - The duration of the lease when it expired, in milliseconds.
+   */
+  public constructor(
+    public readonly lockName: string,
+    public readonly durationMs: number,
+  ) {
+    super(`Lease on lock "${lockName}" expired after ${durationMs}ms`);
+  }
+}
+
+/**
+ * Thrown by {@link CyclicBarrier.arrive} when the barrier is broken: a waiting party gave up,
+ * the trip callback failed, or the barrier was reset while parties were waiting. The barrier
+ * stays broken until {@link CyclicBarrier.reset} is called.
+ */
+export class BrokenBarrierError extends Error {
+  public override readonly name = 'BrokenBarrierError';
+
+  /**
+   * @param barrierName - The name of the broken barrier.
+   * @param cause - What broke the barrier, such as the abort reason of the party that gave up.
+   */
+  public constructor(
+    public readonly barrierName: string,
+    cause?: unknown,
+  ) {
+    super(`Barrier "${barrierName}" is broken`, { cause });
+  }
+}
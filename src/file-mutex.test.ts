@@ -0,0 +1,180 @@
+import fsPromises from 'node:fs/promises';
+import { existsSync, mkdtempSync, readFileSync, rmSync, statSync, utimesSync, writeFileSync } from 'node:fs';
+import { hostname, tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+import { FileMutex, LockReleasedError, LockTimeoutError, timeout } from '.';
+
+const dir = mkdtempSync(join(tmpdir(), 'file-mutex-'));
+let nextFile = 0;
+
+function lockPath() {
+  return join(dir, `${++nextFile}.lock`);
+}
+
+describe('file-mutex', { timeout: 10000 }, () => {
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it.concurrent('never allows accessors interfere across instances', async () => {
+    const path = lockPath();
+    const mutexes = [new FileMutex(path, { retryMinMs: 1 }), new FileMutex(path, { retryMinMs: 1 })];
+    let cntAccess = 0;
+    const f = async (mutex: FileMutex) => {
+      using _ = await mutex.lock();
+      expect(++cntAccess).toBe(1);
+      await timeout(Math.random() * 5);
+      --cntAccess;
+    };
+    await Promise.all(Array.from({ length: 20 }, (_, i) => f(mutexes[i % 2])));
+    expect(cntAccess).toBe(0);
+    expect(mutexes[0].isHeld || mutexes[1].isHeld).toBe(false);
+  });
+
+  it.concurrent('holds the owner in the lockfile and removes it on release', async () => {
+    const path = lockPath();
+    const mutex = new FileMutex(path);
+    const release = await mutex.obtain();
+    expect(mutex.isHeld).toBe(true);
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toMatchObject({ pid: process.pid, hostname: hostname() });
+
+    const other = new FileMutex(path);
+    const waiting = other.obtain();
+    await timeout(5);
+    expect(other.waitingCount).toBe(1);
+
+    release();
+    (await waiting)();
+    await timeout(5);
+    expect(existsSync(path)).toBe(false);
+    expect(other.isHeld).toBe(false);
+  });
+
+  it.concurrent('takes over a lockfile without a recent heartbeat', async () => {
+    const path = lockPath();
+    writeFileSync(path, JSON.stringify({ pid: process.pid, hostname: hostname(), acquiredAt: 0 }));
+    const old = new Date(Date.now() - 60000);
+    utimesSync(path, old, old);
+
+    const mutex = new FileMutex(path, { staleMs: 1000 });
+    const release = await mutex.obtain({ timeoutMs: 1000 });
+    expect(statSync(path).mtimeMs).toBeGreaterThan(old.getTime());
+    release();
+  });
+
+  it.concurrent('takes over a lockfile left by a dead process', async () => {
+    const path = lockPath();
+    // Beyond the default pid_max, so no such process exists
+    writeFileSync(path, JSON.stringify({ pid: 2 ** 22 + 1, hostname: hostname(), acquiredAt: Date.now() }));
+    const mutex = new FileMutex(path);
+    const release = await mutex.obtain({ timeoutMs: 1000 });
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toMatchObject({ pid: process.pid });
+    release();
+  });
+
+  it.concurrent('keeps a held lock alive with heartbeats', async () => {
+    const path = lockPath();
+    const holder = new FileMutex(path, { staleMs: 60, heartbeatMs: 10 });
+    const release = await holder.obtain();
+    const other = new FileMutex(path, { staleMs: 60, retryMinMs: 5, retryMaxMs: 10 });
+    await expect(other.obtain({ timeoutMs: 200 })).rejects.toThrow(LockTimeoutError);
+    release();
+  });
+
+  it.concurrent('leaves a lockfile taken over by another process alone on a late release', async () => {
+    const path = lockPath();
+    // Its first heartbeat is seconds away, so to the others it looks stuck
+    const stuck = new FileMutex(path);
+    const releaseStuck = await stuck.obtain();
+    await timeout(50);
+    const next = new FileMutex(path, { staleMs: 30, heartbeatMs: 10 });
+    const releaseNext = await next.obtain({ timeoutMs: 1000 });
+
+    releaseStuck();
+    await timeout(20);
+    expect(existsSync(path)).toBe(true);
+    const third = new FileMutex(path, { staleMs: 30, retryMinMs: 5, retryMaxMs: 10 });
+    await expect(third.obtain({ timeoutMs: 100 })).rejects.toThrow(LockTimeoutError);
+
+    releaseNext();
+    (await third.obtain({ timeoutMs: 1000 }))();
+  });
+
+  it.concurrent('stops the heartbeat once another process owns the lockfile', async () => {
+    const path = lockPath();
+    const holder = new FileMutex(path, { heartbeatMs: 10 });
+    const release = await holder.obtain();
+    writeFileSync(path, JSON.stringify({ pid: process.pid, hostname: hostname(), acquiredAt: 0, nonce: 'other' }));
+    const old = new Date(Date.now() - 60000);
+    utimesSync(path, old, old);
+    await timeout(40);
+    expect(statSync(path).mtimeMs).toBeCloseTo(old.getTime(), -2);
+
+    release();
+    await timeout(10);
+    expect(JSON.parse(readFileSync(path, 'utf8'))).toMatchObject({ nonce: 'other' });
+  });
+
+  it.concurrent('supports bypass, timeouts and signals', async () => {
+    const path = lockPath();
+    const mutex = new FileMutex(path, { name: 'cache' });
+    const release = await mutex.obtain();
+    const bypass = await mutex.obtain(true);
+    bypass();
+    expect(existsSync(path)).toBe(true);
+
+    const other = new FileMutex(path, { name: 'cache' });
+    await expect(other.obtain({ timeoutMs: 20 })).rejects.toThrow('waiting for lock "cache"');
+    const controller = new AbortController();
+    const aborted = other.obtain({ signal: controller.signal });
+    await timeout(5);
+    controller.abort(new Error('stop'));
+    await expect(aborted).rejects.toThrow('stop');
+    expect(other.waitingCount).toBe(0);
+    // Waiting in this process, behind the local holder
+    await expect(mutex.obtain({ timeoutMs: 10 })).rejects.toThrow(LockTimeoutError);
+
+    release();
+    release();
+    await timeout(5);
+    expect(existsSync(path)).toBe(false);
+  });
+
+  it.concurrent('fails when the lockfile cannot be created', async () => {
+    const mutex = new FileMutex(join(dir, 'missing', 'x.lock'));
+    await expect(mutex.obtain()).rejects.toMatchObject({ code: 'ENOENT' });
+    expect(mutex.waitingCount).toBe(0);
+  });
+
+  it.concurrent('throws on repeated release in strict mode', async () => {
+    const mutex = new FileMutex(lockPath(), { strictRelease: true });
+    const release = await mutex.obtain();
+    release();
+    expect(() => release()).toThrow(LockReleasedError);
+  });
+
+  it.concurrent('rejects a heartbeat that is not below the stale threshold', () => {
+    expect(() => new FileMutex(lockPath(), { staleMs: 100, heartbeatMs: 100 })).toThrow(RangeError);
+    expect(() => new FileMutex(lockPath(), { heartbeatMs: 20000 })).toThrow(
+      'Expected heartbeatMs below staleMs (10000), got 20000',
+    );
+    expect(() => new FileMutex(lockPath(), { staleMs: 90 })).not.toThrow();
+  });
+
+  it('removes its lockfile when writing the owner fails', async () => {
+    const path = lockPath();
+    const realOpen = fsPromises.open;
+    const open = vi.spyOn(fsPromises, 'open').mockImplementationOnce(async (...args) => {
+      const file = await realOpen(...args);
+      file.writeFile = () => Promise.reject(new Error('disk full'));
+      return file;
+    });
+    try {
+      const mutex = new FileMutex(path);
+      await expect(mutex.obtain()).rejects.toThrow('disk full');
+      expect(existsSync(path)).toBe(false);
+      (await mutex.obtain({ timeoutMs: 1000 }))();
+    } finally {
+      open.mockRestore();
+    }
+  });
+});
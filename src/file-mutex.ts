@@ -0,0 +1,370 @@
+import type * as Fs from 'node:fs';
+import type * as FsPromises from 'node:fs/promises';
+import { cancellation, race } from './cancellation';
+import { LockReleasedError, LockTimeoutError } from './errors';
+import { Mutex, type MutexAcquireOptions } from './mutex';
+
+interface NodeModules {
+  fs: typeof Fs;
+  fsPromises: typeof FsPromises;
+  os: { hostname(): string };
+  process: {
+    pid: number;
+    kill(pid: number, signal: number): boolean;
+    on(event: 'exit', listener: () => void): void;
+    off(event: 'exit', listener: () => void): void;
+  };
+}
+
+/**
+ * Loads the Node.js modules FileMutex needs, without a static import that would break browser bundles.
+ */
+function nodeModules(): NodeModules {
+  const process = (
+    globalThis as {
+      process?: NodeModules['process'] & { getBuiltinModule?: (id: string) => unknown };
+    }
+  ).process;
+  if (process?.getBuiltinModule === undefined) {
+    throw new Error('FileMutex requires Node.js 20.16 or later, or a runtime with process.getBuiltinModule');
+  }
+  return {
+    fs: process.getBuiltinModule('node:fs') as typeof Fs,
+    fsPromises: process.getBuiltinModule('node:fs/promises') as typeof FsPromises,
+    os: process.getBuiltinModule('node:os') as NodeModules['os'],
+    process,
+  };
+}
+
+function errorCode(error: unknown) {
+  return (error as { code?: string } | null)?.code;
+}
+
+function releaseStub() {
+  return;
+}
+
+/**
+ * The content of a lockfile.
+ */
+interface LockOwner {
+  pid: number;
+  hostname: string;
+  acquiredAt: number;
+  /** Tells this acquisition apart from any later one, even by the same process. */
+  nonce: string;
+}
+
+/**
+ * Options accepted by the {@link FileMutex} constructor.
+ */
+export interface FileMutexOptions {
+  /** A name identifying the lock in errors. Defaults to the lockfile path. */
+  name?: string;
+  /**
+   * How long a lockfile may go without a heartbeat before another process takes it over,
+   * in milliseconds. Defaults to 10000.
+   */
+  staleMs?: number;
+  /**
+   * How often the holder refreshes the heartbeat, in milliseconds. Must be below `staleMs`, or the
+   * lock of a live holder would pass for stale. Defaults to a third of `staleMs`.
+   */
+  heartbeatMs?: number;
+  /** The first delay between attempts while waiting, in milliseconds. Defaults to 10. */
+  retryMinMs?: number;
+  /** The longest delay between attempts; delays double up to it. Defaults to 1000. */
+  retryMaxMs?: number;
+  /** Makes repeated releases throw, see {@link MutexOptions.strictRelease}. */
+  strictRelease?: boolean;
+}
+
+/**
+ * A mutual exclusion lock shared between processes on the same machine, or on a shared file system.
+ * Where {@link Mutex} coordinates tasks within one process, FileMutex coordinates the processes
+ * themselves, e.g. several CLI invocations writing to the same cache directory.
+ *
+ * The lock is a file created atomically (`O_EXCL`) at the given path, holding the owner's PID.
+ * The holder refreshes the file's modification time as a heartbeat. A lockfile whose heartbeat
+ * is older than `staleMs`, or whose owner process on this machine is gone, is considered left
+ * by a crashed process and taken over. Waiting processes retry with exponential backoff.
+ * A holder that was taken over leaves the new owner's file alone: the file carries a nonce
+ * of its acquisition, checked before every heartbeat and before removing it.
+ *
+ * Tasks within one process queue on an in-process {@link Mutex} first, so only one of them
+ * polls the file system at a time. Node.js only.
+ *
+ * @example
+ * ```typescript
+ * const mutex = new FileMutex(join(cacheDir, '.lock'), { staleMs: 30000 });
+ * {
+ *   using _ = await mutex.lock({ timeoutMs: 60000 });
+ *   await writeCache();
+ * }
+ * ```
+ */
+export class FileMutex {
+  private readonly m_local: Mutex;
+  private readonly m_node = nodeModules();
+  private m_isHeld = false;
+
+  /**
+   * The name of the lock, as reported by {@link LockTimeoutError}.
+   */
+  public readonly name: string;
+
+  /**
+   * How long a lockfile may go without a heartbeat before it is taken over, in milliseconds.
+   */
+  public readonly staleMs: number;
+
+  private readonly m_heartbeatMs: number;
+  private readonly m_retryMinMs: number;
+  private readonly m_retryMaxMs: number;
+  private readonly m_strictRelease: boolean;
+
+  /**
+   * Initializes a FileMutex for the given lockfile path. Nothing is created until the lock is obtained.
+   *
+   * @param path - The lockfile to create while the lock is held. Its directory must exist.
+   * @param options - Optional settings, such as the stale threshold and the retry backoff.
+   * @throws {Error} If the runtime does not provide the Node.js file system.
+   * @throws {RangeError} If `heartbeatMs` is not below `staleMs`.
+   */
+  public constructor(
+    public readonly path: string,
+    options: FileMutexOptions = {},
+  ) {
+    this.name = options.name ?? path;
+    this.staleMs = options.staleMs ?? 10000;
+    this.m_heartbeatMs = options.heartbeatMs ?? this.staleMs / 3;
+    if (!(this.m_heartbeatMs < this.staleMs)) {
+      throw new RangeError(`Expected heartbeatMs below staleMs (${this.staleMs}), got ${this.m_heartbeatMs}`);
+    }
+    this.m_retryMinMs = options.retryMinMs ?? 10;
+    this.m_retryMaxMs = options.retryMaxMs ?? 1000;
+    this.m_strictRelease = options.strictRelease ?? false;
+    this.m_local = new Mutex({ name: this.name });
+  }
+
+  /**
+   * Whether this FileMutex currently holds the lock. Other processes are not consulted.
+   *
+   * @returns true if the lock is held through this instance, false otherwise.
+   */
+  public get isHeld() {
+    return this.m_isHeld;
+  }
+
+  /**
+   * The number of tasks in this process waiting to acquire the lock.
+   *
+   * @returns The count of waiting tasks, not counting other processes.
+   */
+  public get waitingCount() {
+    return this.m_local.waitingCount + (this.m_local.isLocked && !this.m_isHeld ? 1 : 0);
+  }
+
+  /**
+   * Acquires the lock, waiting and retrying if necessary, and returns a release function.
+   * Same contract as {@link Mutex.obtain}: release in a finally block, repeated calls do nothing.
+   *
+   * @param options - Either the bypass flag, or acquisition options. Defaults to false.
+   * @returns A promise resolving to a function that releases the lock.
+   * @throws {LockTimeoutError} If `timeoutMs` elapses before the lock is acquired.
+   * @throws {Error} If the lockfile cannot be created for a reason other than being taken,
+   *   e.g. a missing directory or insufficient permissions.
+   */
+  public async obtain(options: boolean | MutexAcquireOptions = false): Promise<() => void> {
+    const {
+      bypass = false,
+      signal,
+      timeoutMs,
+    } = typeof options === 'boolean' ? { bypass: options } : options;
+    if (bypass) return releaseStub;
+    const startedAt = performance.now();
+    const releaseLocal = await this.m_local.obtain({ signal, timeoutMs });
+    const remainingMs = timeoutMs === undefined ? undefined : timeoutMs - (performance.now() - startedAt);
+    const cancel = cancellation(signal, remainingMs, () => new LockTimeoutError(this.name, timeoutMs!));
+    let nonce: string | null;
+    try {
+      // File system calls are not raced: one completing after a rejection would orphan the lockfile
+      for (let attempt = 0; (nonce = await this.tryCreate()) === null; ++attempt) {
+        if (await this.removeIfStale()) continue;
+        await race(this.backoff(attempt), cancel);
+      }
+    } catch (error) {
+      releaseLocal();
+      throw error;
+    } finally {
+      cancel?.dispose();
+    }
+    return this.held(releaseLocal, nonce);
+  }
+
+  /**
+   * Acquires the lock and returns a disposable object for use with 'using' syntax.
+   *
+   * @param options - Either the bypass flag, or acquisition options. Defaults to false.
+   * @returns A promise resolving to an object with [Symbol.dispose] that releases the lock.
+   * @example
+   * ```typescript
+   * {
+   *   using _ = await mutex.lock();
+   *   // Exclusive across processes, auto-released on exit
+   * }
+   * ```
+   */
+  public async lock(options: boolean | MutexAcquireOptions = false) {
+    return {
+      [Symbol.dispose]: await this.obtain(options),
+    };
+  }
+
+  /**
+   * Creates the lockfile if there is none.
+   *
+   * @returns The nonce written to the new lockfile, or null if the lock is taken.
+   */
+  private async tryCreate() {
+    const { fsPromises, os, process } = this.m_node;
+    let file: FsPromises.FileHandle;
+    try {
+      file = await fsPromises.open(this.path, 'wx');
+    } catch (error) {
+      if (errorCode(error) === 'EEXIST') return null;
+      throw error;
+    }
+    const nonce = crypto.randomUUID();
+    try {
+      try {
+        const owner: LockOwner = { pid: process.pid, hostname: os.hostname(), acquiredAt: Date.now(), nonce };
+        await file.writeFile(JSON.stringify(owner));
+      } finally {
+        await file.close();
+      }
+    } catch (error) {
+      // A lockfile without its owner would keep everyone out until it goes stale
+      await fsPromises.unlink(this.path).catch(releaseStub);
+      throw error;
+    }
+    return nonce;
+  }
+
+  /**
+   * Whether the lockfile is still the one created with the given nonce, and not one of another
+   * process that took the lock over after judging ours stale.
+   */
+  private async isOwned(nonce: string) {
+    const { fsPromises } = this.m_node;
+    try {
+      const owner = JSON.parse(await fsPromises.readFile(this.path, 'utf8')) as Partial<LockOwner>;
+      return owner.nonce === nonce;
+    } catch {
+      // Gone or unreadable: not ours to touch
+      return false;
+    }
+  }
+
+  /**
+   * Same as {@link isOwned}, for the exit handler, which cannot wait.
+   */
+  private isOwnedSync(nonce: string) {
+    const { fs } = this.m_node;
+    try {
+      const owner = JSON.parse(fs.readFileSync(this.path, 'utf8')) as Partial<LockOwner>;
+      return owner.nonce === nonce;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Removes the lockfile if its heartbeat is too old or its owner process is gone.
+   *
+   * @returns true if a stale lockfile was removed or had already disappeared.
+   */
+  private async removeIfStale() {
+    const { fsPromises } = this.m_node;
+    let stats: Fs.Stats | undefined;
+    let owner: Partial<LockOwner> = {};
+    try {
+      stats = await fsPromises.stat(this.path);
+      owner = JSON.parse(await fsPromises.readFile(this.path, 'utf8')) as Partial<LockOwner>;
+    } catch (error) {
+      if (errorCode(error) === 'ENOENT') return true;
+      // Unreadable content: the owner may still be writing it, judge by the heartbeat alone
+      if (!(error instanceof SyntaxError)) throw error;
+    }
+    // Only a SyntaxError gets here early, and it can only come after the stat
+    stats = stats!;
+    if (Date.now() - stats.mtimeMs <= this.staleMs && this.isOwnerAlive(owner)) return false;
+    try {
+      // Only remove the file we judged stale, not a fresh one created since
+      const current = await fsPromises.stat(this.path);
+      if (current.ino !== stats.ino || current.mtimeMs !== stats.mtimeMs) return false;
+      await fsPromises.unlink(this.path);
+    } catch (error) {
+      if (errorCode(error) !== 'ENOENT') throw error;
+    }
+    return true;
+  }
+
+  private isOwnerAlive(owner: Partial<LockOwner>) {
+    const { os, process } = this.m_node;
+    if (typeof owner.pid !== 'number' || owner.hostname !== os.hostname()) return true;
+    try {
+      process.kill(owner.pid, 0);
+      return true;
+    } catch (error) {
+      // EPERM: the process exists, but belongs to someone else
+      return errorCode(error) !== 'ESRCH';
+    }
+  }
+
+  private backoff(attempt: number) {
+    const delayMs = Math.min(this.m_retryMaxMs, this.m_retryMinMs * 2 ** attempt);
+    // Jitter keeps processes that started waiting together from retrying in lockstep
+    return new Promise<void>(resolve => setTimeout(resolve, delayMs * (0.5 + Math.random() / 2)));
+  }
+
+  private held(releaseLocal: () => void, nonce: string) {
+    const { fs, fsPromises, process } = this.m_node;
+    this.m_isHeld = true;
+    const heartbeat = setInterval(() => {
+      void (async () => {
+        // Another process took the lock over: its file is not ours to keep alive
+        if (!(await this.isOwned(nonce))) return clearInterval(heartbeat);
+        const now = new Date();
+        await fsPromises.utimes(this.path, now, now);
+      })().catch(releaseStub);
+    }, this.m_heartbeatMs);
+    heartbeat.unref?.();
+    // Do not leave the lockfile behind when the process exits while holding it
+    const onExit = () => {
+      try {
+        if (this.isOwnedSync(nonce)) fs.unlinkSync(this.path);
+      } catch {
+        // Already gone
+      }
+    };
+    process.on('exit', onExit);
+    let released = false;
+    return () => {
+      if (released) {
+        if (this.m_strictRelease) throw new LockReleasedError(this.name);
+        return;
+      }
+      released = true;
+      this.m_isHeld = false;
+      clearInterval(heartbeat);
+      process.off('exit', onExit);
+      // Local waiters go next only once the file is gone, so they do not poll for nothing
+      void (async () => {
+        if (await this.isOwned(nonce)) await fsPromises.unlink(this.path);
+      })()
+        .catch(releaseStub)
+        .finally(releaseLocal);
+    };
+  }
+}
@@ -1,5 +1,20 @@
+export type { LockAcquisition, LockDiagnosticsOptions, LockMode, LockReport } from './diagnostics';
+export * from './auto-reset-event';
+export * from './condition';
+export * from './count-down-latch';
+export * from './cyclic-barrier';
+export * from './errors';
+export * from './file-mutex';
 export * from './iteration';
+export * from './keyed-mutex';
 export * from './latch';
+export * from './lock-all';
+export * from './lock-manager';
+export * from './metrics';
 export * from './mutex';
+export * from './mutex-cell';
 export * from './promise-barrier';
+export * from './reentrant-mutex';
+export * from './semaphore';
+export * from './shared-mutex';
 export * from './utils';
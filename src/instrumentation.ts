@@ -0,0 +1,87 @@
+import { LockDiagnostics, type LockDiagnosticsOptions, type LockMode } from './diagnostics';
+import type { LockEvent, LockListener } from './metrics';
+
+/**
+ * Reports the life cycle of one acquisition to the diagnostics and observers of its lock.
+ */
+export interface AcquisitionProbe {
+  /** The acquisition had to queue. */
+  waiting(): void;
+  /** The lock was granted; `handle` is what the caller releases it through. */
+  acquired(handle: object): void;
+  abandoned(): void;
+  /** Does nothing unless the acquisition was acquired, and when called again. */
+  released(): void;
+}
+
+/**
+ * The diagnostics and observers of one lock. Costs nothing per acquisition while neither is in use.
+ */
+export class LockInstrumentation {
+  private readonly m_listeners = new Set<LockListener>();
+  private readonly m_diagnostics: LockDiagnostics | null;
+
+  public constructor(
+    private readonly m_lockName: string,
+    diagnostics?: boolean | LockDiagnosticsOptions,
+  ) {
+    this.m_diagnostics = LockDiagnostics.create(m_lockName, diagnostics);
+  }
+
+  public observe(listener: LockListener) {
+    // Wrapped, so that the same listener may be attached twice and detached independently
+    const entry: LockListener = event => listener(event);
+    this.m_listeners.add(entry);
+    return () => void this.m_listeners.delete(entry);
+  }
+
+  public emit(event: LockEvent) {
+    for (const listener of [...this.m_listeners]) {
+      try {
+        listener(event);
+      } catch (error) {
+        // A faulty observer must not leave the lock in a broken state
+        queueMicrotask(() => {
+          throw error;
+        });
+      }
+    }
+  }
+
+  public get isObserved() {
+    return this.m_listeners.size > 0;
+  }
+
+  /**
+   * Starts reporting a new acquisition, or returns null if nobody is interested.
+   * Must run synchronously in the caller's async context.
+   */
+  public begin(mode: LockMode, label: string | undefined): AcquisitionProbe | null {
+    const tracked = this.m_diagnostics?.begin(mode, label) ?? null;
+    if (tracked === null && !this.isObserved) return null;
+    const lockName = this.m_lockName;
+    const requestedAt = performance.now();
+    let acquiredAt = -1;
+    this.emit({ type: 'acquire-requested', lockName, mode });
+    return {
+      waiting: () => tracked?.waiting(),
+      acquired: handle => {
+        tracked?.acquired(handle);
+        acquiredAt = performance.now();
+        this.emit({ type: 'acquired', lockName, mode, waitMs: acquiredAt - requestedAt });
+      },
+      abandoned: () => {
+        tracked?.abandoned();
+        this.emit({ type: 'abandoned', lockName, mode, waitMs: performance.now() - requestedAt });
+      },
+      released: () => {
+        if (acquiredAt < 0) return;
+        tracked?.released();
+        const waitMs = acquiredAt - requestedAt;
+        const holdMs = performance.now() - acquiredAt;
+        acquiredAt = -1;
+        this.emit({ type: 'released', lockName, mode, waitMs, holdMs });
+      },
+    };
+  }
+}
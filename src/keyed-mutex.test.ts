@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { KeyedMutex, KeyedMutexRW, LockTimeoutError, timeout } from '.';
+
+describe('keyed-mutex', { timeout: 10000 }, () => {
+  it.concurrent('serializes tasks per key and runs keys in parallel', async () => {
+    const mutex = new KeyedMutex<number>();
+    const cntAccess = [0, 0, 0];
+    let maxParallel = 0;
+    let parallel = 0;
+    const f = async (key: number) => {
+      using _ = await mutex.lock(key);
+      expect(++cntAccess[key]).toBe(1);
+      maxParallel = Math.max(maxParallel, ++parallel);
+      await timeout(Math.random() * 10);
+      --parallel;
+      --cntAccess[key];
+      if (Math.random() > 0.5) throw new Error();
+    };
+    const threads: Promise<unknown>[] = [];
+    for (let i = 0; i < 60; ++i) {
+      threads.push(f(i % 3));
+    }
+    await Promise.allSettled(threads);
+    expect(cntAccess).toEqual([0, 0, 0]);
+    expect(maxParallel).toBeGreaterThan(1);
+    expect(mutex.size).toBe(0);
+  });
+
+  it('drops a key once its last holder and waiter are gone', async () => {
+    const mutex = new KeyedMutex<string>();
+    expect(mutex.size).toBe(0);
+
+    const release1 = await mutex.obtain('a');
+    expect(mutex.size).toBe(1);
+    expect(mutex.isLocked('a')).toBe(true);
+    expect(mutex.isLocked('b')).toBe(false);
+
+    const promise2 = mutex.obtain('a');
+    await Promise.resolve();
+    expect(mutex.waitingCount('a')).toBe(1);
+    expect(mutex.waitingCount('b')).toBe(0);
+
+    release1();
+    expect(mutex.size).toBe(1);
+    const release2 = await promise2;
+    expect(mutex.waitingCount('a')).toBe(0);
+
+    release2();
+    release2();
+    expect(mutex.size).toBe(0);
+    expect(mutex.isLocked('a')).toBe(false);
+  });
+
+  it('drops a key when its only waiter times out', async () => {
+    const mutex = new KeyedMutex<string>({ name: 'users' });
+    const release = await mutex.obtain('alice');
+
+    await expect(mutex.lock('alice', { timeoutMs: 10 })).rejects.toMatchObject({
+      lockName: 'users[alice]',
+    });
+    expect(mutex.waitingCount('alice')).toBe(0);
+
+    release();
+    expect(mutex.size).toBe(0);
+  });
+
+  it('supports tryObtain and bypass', async () => {
+    const mutex = new KeyedMutex<string>();
+    const release = mutex.tryObtain('a');
+    expect(release).not.toBeNull();
+    expect(mutex.tryObtain('a')).toBeNull();
+    expect(mutex.size).toBe(1);
+
+    using _ = await mutex.lock('a', true);
+    expect(mutex.size).toBe(1);
+
+    release!();
+    expect(mutex.size).toBe(0);
+  });
+});
+
+describe('keyed-mutex-rw', { timeout: 10000 }, () => {
+  it.concurrent('never lets readers and writers of one key interfere', async () => {
+    const mutex = new KeyedMutexRW<string>();
+    const cntRO = new Map<string, number>();
+    const cntRW = new Map<string, number>();
+    const fRO = async (key: string) => {
+      using _ = await mutex.lockRead(key);
+      cntRO.set(key, (cntRO.get(key) ?? 0) + 1);
+      expect(cntRW.get(key) ?? 0).toBe(0);
+      await timeout(Math.random() * 10);
+      cntRO.set(key, cntRO.get(key)! - 1);
+    };
+    const fRW = async (key: string) => {
+      using _ = await mutex.lockWrite(key);
+      cntRW.set(key, (cntRW.get(key) ?? 0) + 1);
+      expect(cntRW.get(key)).toBe(1);
+      expect(cntRO.get(key) ?? 0).toBe(0);
+      await timeout(Math.random() * 10);
+      cntRW.set(key, cntRW.get(key)! - 1);
+    };
+    const threads: Promise<unknown>[] = [];
+    for (let i = 0; i < 100; ++i) {
+      const key = i % 2 ? 'x' : 'y';
+      threads.push(Math.random() > 0.5 ? fRO(key) : fRW(key));
+    }
+    await Promise.all(threads);
+    expect(mutex.size).toBe(0);
+  });
+
+  it('reports per-key status and drops idle keys', async () => {
+    const mutex = new KeyedMutexRW<string>();
+    const releaseRead = await mutex.obtainRead('a');
+    const writePromise = mutex.obtainWrite('a');
+    const readPromise = mutex.obtainRead('a');
+    await Promise.resolve();
+
+    expect(mutex.size).toBe(1);
+    expect(mutex.isReadLocked('a')).toBe(true);
+    expect(mutex.activeReadCount('a')).toBe(1);
+    expect(mutex.writeWaitingCount('a')).toBe(1);
+    expect(mutex.readWaitingCount('a')).toBe(1);
+    expect(mutex.isWriteLocked('b')).toBe(false);
+    const releaseB = mutex.tryObtainWrite('b');
+    expect(releaseB).not.toBeNull();
+    expect(mutex.size).toBe(2);
+    releaseB!();
+    expect(mutex.size).toBe(1);
+
+    releaseRead();
+    const releaseWrite = await writePromise;
+    expect(mutex.isWriteLocked('a')).toBe(true);
+    expect(mutex.tryObtainRead('a')).toBeNull();
+
+    releaseWrite();
+    (await readPromise)();
+    expect(mutex.size).toBe(0);
+  });
+
+  it('keeps the key alive through downgrades and upgrades', async () => {
+    const mutex = new KeyedMutexRW<string>();
+    {
+      using handle = await mutex.lockWrite('a');
+      handle.downgrade();
+      expect(mutex.activeReadCount('a')).toBe(1);
+    }
+    expect(mutex.size).toBe(0);
+    {
+      using handle = await mutex.obtainUpgradableRead('a');
+      await handle.upgrade();
+      expect(handle.isUpgraded).toBe(true);
+      expect(mutex.isWriteLocked('a')).toBe(true);
+    }
+    expect(mutex.size).toBe(0);
+    await expect(
+      (async () => {
+        using _ = await mutex.lockWrite('a');
+        await mutex.obtainRead('a', { timeoutMs: 5 });
+      })(),
+    ).rejects.toBeInstanceOf(LockTimeoutError);
+    expect(mutex.size).toBe(0);
+  });
+});
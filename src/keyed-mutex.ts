@@ -0,0 +1,430 @@
+import {
+  type AcquireOptions,
+  Mutex,
+  type MutexAcquireOptions,
+  MutexRW,
+  type MutexRWPolicy,
+  type UpgradableReadHandle,
+  type WriteLockHandle,
+} from './mutex';
+
+function releaseStub() {
+  return;
+}
+
+/**
+ * Wraps a lock's release function so it also leaves the pool, exactly once.
+ */
+function releasing(release: () => void, leave: () => void) {
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    leave();
+    release();
+  };
+}
+
+interface PoolEntry<L> {
+  lock: L;
+  refs: number;
+}
+
+/**
+ * Lazily creates one lock per key and drops it once nobody holds or waits for it.
+ */
+class LockPool<K, L> {
+  private readonly m_entries = new Map<K, PoolEntry<L>>();
+
+  public constructor(private readonly create: (key: K) => L) {}
+
+  public get size() {
+    return this.m_entries.size;
+  }
+
+  public peek(key: K) {
+    return this.m_entries.get(key)?.lock;
+  }
+
+  /**
+   * Runs an acquisition against the key's lock, keeping the entry alive until `leave` is called.
+   * The returned `leave` may be called any number of times.
+   */
+  public async hold<T>(key: K, acquire: (lock: L) => Promise<T>): Promise<[T, () => void]> {
+    const entry = this.enter(key);
+    try {
+      return [await acquire(entry.lock), this.leaver(key, entry)];
+    } catch (error) {
+      this.leave(key, entry);
+      throw error;
+    }
+  }
+
+  /**
+   * Synchronous counterpart of {@link hold} for non-blocking acquisitions that return null on failure.
+   */
+  public tryHold<T>(key: K, acquire: (lock: L) => T | null): [T, () => void] | null {
+    const entry = this.enter(key);
+    const result = acquire(entry.lock);
+    if (result === null) {
+      this.leave(key, entry);
+      return null;
+    }
+    return [result, this.leaver(key, entry)];
+  }
+
+  private enter(key: K) {
+    let entry = this.m_entries.get(key);
+    if (entry === undefined) {
+      entry = { lock: this.create(key), refs: 0 };
+      this.m_entries.set(key, entry);
+    }
+    ++entry.refs;
+    return entry;
+  }
+
+  private leaver(key: K, entry: PoolEntry<L>) {
+    let left = false;
+    return () => {
+      if (left) return;
+      left = true;
+      this.leave(key, entry);
+    };
+  }
+
+  private leave(key: K, entry: PoolEntry<L>) {
+    if (--entry.refs === 0 && this.m_entries.get(key) === entry) this.m_entries.delete(key);
+  }
+}
+
+/**
+ * Options accepted by the {@link KeyedMutex} constructor.
+ */
+export interface KeyedMutexOptions {
+  /** A name identifying the locks in errors; each key's lock is named `name[key]`. Defaults to `'KeyedMutex'`. */
+  name?: string;
+}
+
+/**
+ * Options accepted by the {@link KeyedMutexRW} constructor.
+ */
+export interface KeyedMutexRWOptions {
+  /** A name identifying the locks in errors; each key's lock is named `name[key]`. Defaults to `'KeyedMutexRW'`. */
+  name?: string;
+  /** The fairness policy of every key's lock. Defaults to `'write-preferring'`. */
+  policy?: MutexRWPolicy;
+}
+
+/**
+ * A family of {@link Mutex} locks, one per key, for serializing work per user, per file, per
+ * record and so on, while unrelated keys proceed in parallel. Replaces a hand-kept
+ * `Map<K, Mutex>`: a key's lock is created on first use and dropped as soon as its last holder
+ * and last waiter are gone, so the map never grows with keys that are no longer in use.
+ *
+ * The API mirrors {@link Mutex}, with the key as the first argument.
+ *
+ * @template K - The type of the keys. Keys are compared like `Map` keys.
+ *
+ * @example
+ * ```typescript
+ * const userLocks = new KeyedMutex<string>();
+ * async function updateBalance(userId: string, delta: number) {
+ *   using _ = await userLocks.lock(userId);
+ *   const balance = await loadBalance(userId);
+ *   await saveBalance(userId, balance + delta);
+ * }
+ * ```
+ */
+export class KeyedMutex<K> {
+  private readonly m_pool: LockPool<K, Mutex>;
+
+  /**
+   * The name of the keyed lock, used as a prefix in the names of the per-key locks.
+   */
+  public readonly name: string;
+
+  /**
+   * Initializes a new KeyedMutex with no live keys.
+   *
+   * @param options - Optional settings, such as a name used in error messages.
+   */
+  public constructor(options: KeyedMutexOptions = {}) {
+    this.name = options.name ?? 'KeyedMutex';
+    this.m_pool = new LockPool(key => new Mutex({ name: `${this.name}[${String(key)}]` }));
+  }
+
+  /**
+   * The number of keys that currently have a holder or a waiter.
+   *
+   * @returns The count of live keys.
+   */
+  public get size() {
+    return this.m_pool.size;
+  }
+
+  /**
+   * Whether the lock for the key is currently held.
+   *
+   * @param key - The key to check.
+   * @returns true if a task holds the key's lock, false otherwise.
+   */
+  public isLocked(key: K) {
+    return this.m_pool.peek(key)?.isLocked ?? false;
+  }
+
+  /**
+   * The number of tasks currently waiting for the key's lock.
+   *
+   * @param key - The key to check.
+   * @returns The count of waiting tasks for the key.
+   */
+  public waitingCount(key: K) {
+    return this.m_pool.peek(key)?.waitingCount ?? 0;
+  }
+
+  /**
+   * Acquires the lock for the key, waiting if necessary, and returns a release function.
+   * Behaves like {@link Mutex.obtain}; the release function does nothing when called again.
+   *
+   * @param key - The key to lock.
+   * @param options - Either the bypass flag, or acquisition options. Defaults to false.
+   * @returns A promise resolving to a function that releases the key's lock.
+   */
+  public async obtain(key: K, options: boolean | MutexAcquireOptions = false): Promise<() => void> {
+    if (options === true || (typeof options === 'object' && options.bypass)) return releaseStub;
+    const [release, leave] = await this.m_pool.hold(key, mutex => mutex.obtain(options));
+    return releasing(release, leave);
+  }
+
+  /**
+   * Acquires the lock for the key only if it is free right now, without waiting.
+   *
+   * @param key - The key to lock.
+   * @returns A function that releases the key's lock, or null if it is not available.
+   */
+  public tryObtain(key: K): (() => void) | null {
+    const held = this.m_pool.tryHold(key, mutex => mutex.tryObtain());
+    if (held === null) return null;
+    return releasing(...held);
+  }
+
+  /**
+   * Acquires the lock for the key and returns a disposable object for use with 'using' syntax.
+   *
+   * @param key - The key to lock.
+   * @param options - Either the bypass flag, or acquisition options. Defaults to false.
+   * @returns A promise resolving to an object with [Symbol.dispose] that releases the key's lock.
+   * @example
+   * ```typescript
+   * {
+   *   using _ = await fileLocks.lock(path);
+   *   await rewrite(path);
+   * }
+   * ```
+   */
+  public async lock(key: K, options: boolean | MutexAcquireOptions = false) {
+    return {
+      [Symbol.dispose]: await this.obtain(key, options),
+    };
+  }
+}
+
+/**
+ * A family of {@link MutexRW} locks, one per key, with the same automatic cleanup as
+ * {@link KeyedMutex}. Readers of one key share access, writers of one key are exclusive,
+ * and different keys never block each other.
+ *
+ * @template K - The type of the keys. Keys are compared like `Map` keys.
+ *
+ * @example
+ * ```typescript
+ * const documentLocks = new KeyedMutexRW<string>();
+ * {
+ *   using _ = await documentLocks.lockRead(documentId);
+ *   return render(await load(documentId));
+ * }
+ * ```
+ */
+export class KeyedMutexRW<K> {
+  private readonly m_pool: LockPool<K, MutexRW>;
+
+  /**
+   * The name of the keyed lock, used as a prefix in the names of the per-key locks.
+   */
+  public readonly name: string;
+
+  /**
+   * Initializes a new KeyedMutexRW with no live keys.
+   *
+   * @param options - Optional settings, such as a name used in error messages and the fairness policy.
+   */
+  public constructor(options: KeyedMutexRWOptions = {}) {
+    this.name = options.name ?? 'KeyedMutexRW';
+    this.m_pool = new LockPool(
+      key => new MutexRW({ name: `${this.name}[${String(key)}]`, policy: options.policy }),
+    );
+  }
+
+  /**
+   * The number of keys that currently have a holder or a waiter.
+   *
+   * @returns The count of live keys.
+   */
+  public get size() {
+    return this.m_pool.size;
+  }
+
+  /**
+   * Whether any read lock is held for the key.
+   *
+   * @param key - The key to check.
+   * @returns true if read locks are held for the key, false otherwise.
+   */
+  public isReadLocked(key: K) {
+    return this.m_pool.peek(key)?.isReadLocked ?? false;
+  }
+
+  /**
+   * Whether the write lock is held for the key.
+   *
+   * @param key - The key to check.
+   * @returns true if the key's write lock is held, false otherwise.
+   */
+  public isWriteLocked(key: K) {
+    return this.m_pool.peek(key)?.isWriteLocked ?? false;
+  }
+
+  /**
+   * The number of tasks currently holding a read lock for the key.
+   *
+   * @param key - The key to check.
+   * @returns The count of active readers for the key.
+   */
+  public activeReadCount(key: K) {
+    return this.m_pool.peek(key)?.activeReadCount ?? 0;
+  }
+
+  /**
+   * The number of tasks currently waiting for a read lock for the key.
+   *
+   * @param key - The key to check.
+   * @returns The count of waiting readers for the key.
+   */
+  public readWaitingCount(key: K) {
+    return this.m_pool.peek(key)?.readWaitingCount ?? 0;
+  }
+
+  /**
+   * The number of tasks currently waiting for the write lock for the key.
+   *
+   * @param key - The key to check.
+   * @returns The count of waiting writers for the key.
+   */
+  public writeWaitingCount(key: K) {
+    return this.m_pool.peek(key)?.writeWaitingCount ?? 0;
+  }
+
+  /**
+   * Acquires a read lock for the key. Behaves like {@link MutexRW.obtainRead}.
+   *
+   * @param key - The key to lock.
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise resolving to a function that releases the read lock.
+   */
+  public async obtainRead(key: K, options: AcquireOptions = {}): Promise<() => void> {
+    const [release, leave] = await this.m_pool.hold(key, mutex => mutex.obtainRead(options));
+    return releasing(release, leave);
+  }
+
+  /**
+   * Acquires a read lock for the key only if it can be granted right now, without waiting.
+   *
+   * @param key - The key to lock.
+   * @returns A function that releases the read lock, or null if it is not available.
+   */
+  public tryObtainRead(key: K): (() => void) | null {
+    const held = this.m_pool.tryHold(key, mutex => mutex.tryObtainRead());
+    if (held === null) return null;
+    return releasing(...held);
+  }
+
+  /**
+   * Acquires a read lock for the key and returns a disposable object for 'using' syntax.
+   *
+   * @param key - The key to lock.
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise resolving to an object with [Symbol.dispose] that releases the read lock.
+   */
+  public async lockRead(key: K, options: AcquireOptions = {}) {
+    return {
+      [Symbol.dispose]: await this.obtainRead(key, options),
+    };
+  }
+
+  /**
+   * Acquires the write lock for the key. Behaves like {@link MutexRW.obtainWrite}.
+   *
+   * @param key - The key to lock.
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise resolving to a function that releases the write lock.
+   */
+  public async obtainWrite(key: K, options: AcquireOptions = {}): Promise<() => void> {
+    const [release, leave] = await this.m_pool.hold(key, mutex => mutex.obtainWrite(options));
+    return releasing(release, leave);
+  }
+
+  /**
+   * Acquires the write lock for the key only if it can be granted right now, without waiting.
+   *
+   * @param key - The key to lock.
+   * @returns A function that releases the write lock, or null if it is not available.
+   */
+  public tryObtainWrite(key: K): (() => void) | null {
+    const held = this.m_pool.tryHold(key, mutex => mutex.tryObtainWrite());
+    if (held === null) return null;
+    return releasing(...held);
+  }
+
+  /**
+   * Acquires the write lock for the key and returns a handle for 'using' syntax that can
+   * also be downgraded, like {@link MutexRW.lockWrite}.
+   *
+   * @param key - The key to lock.
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise resolving to a write lock handle.
+   */
+  public async lockWrite(key: K, options: AcquireOptions = {}): Promise<WriteLockHandle> {
+    const [handle, leave] = await this.m_pool.hold(key, mutex => mutex.lockWrite(options));
+    return {
+      downgrade: () => handle.downgrade(),
+      [Symbol.dispose]: () => {
+        leave();
+        handle[Symbol.dispose]();
+      },
+    };
+  }
+
+  /**
+   * Acquires an upgradable read lock for the key, like {@link MutexRW.obtainUpgradableRead}.
+   *
+   * @param key - The key to lock.
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise resolving to an upgradable read handle.
+   */
+  public async obtainUpgradableRead(key: K, options: AcquireOptions = {}): Promise<UpgradableReadHandle> {
+    const [handle, leave] = await this.m_pool.hold(key, mutex => mutex.obtainUpgradableRead(options));
+    const release = () => {
+      leave();
+      handle.release();
+    };
+    return {
+      get isUpgraded() {
+        return handle.isUpgraded;
+      },
+      upgrade: upgradeOptions => handle.upgrade(upgradeOptions),
+      downgrade: () => handle.downgrade(),
+      release,
+      [Symbol.dispose]: release,
+    };
+  }
+}
@@ -1,5 +1,5 @@
-import { describe, expect, it } from 'vitest';
-import { Latch, timeout } from '.';
+import { describe, expect, it, vi } from 'vitest';
+import { Latch, LockTimeoutError, timeout } from '.';
 
 async function ensureTimesOut(latch: Latch, timesOut = true) {
   const timedOut = await Promise.race([latch.gate.then(() => false), timeout(10).then(() => true)]);
@@ -113,4 +113,156 @@ describe('latch', { timeout: 10000 }, () => {
     const rejected = results.filter(r => r.status === 'rejected').length;
     expect(fulfilled + rejected).toBe(50);
   });
+
+  it.concurrent('reports its state synchronously', () => {
+    const latch = new Latch();
+    expect(latch.isOpen).toBe(false);
+    latch.open();
+    expect(latch.isOpen).toBe(true);
+    latch.close();
+    expect(latch.isOpen).toBe(false);
+    const use = latch.use();
+    use[Symbol.dispose]();
+    expect(latch.isOpen).toBe(true);
+  });
+
+  it.concurrent('waits with a timeout or a signal', async () => {
+    const latch = new Latch({ name: 'startup' });
+    await expect(latch.wait({ timeoutMs: 10 })).rejects.toThrow(new LockTimeoutError('startup', 10));
+
+    const controller = new AbortController();
+    const aborted = latch.wait({ signal: controller.signal });
+    controller.abort(new Error('stop'));
+    await expect(aborted).rejects.toThrow('stop');
+    await expect(latch.wait({ signal: controller.signal })).rejects.toThrow('stop');
+
+    const waiting = latch.wait({ timeoutMs: 1000 });
+    setTimeout(() => latch.open(), 5);
+    await expect(waiting).resolves.toBeUndefined();
+    await expect(latch.wait({ timeoutMs: 0 })).resolves.toBeUndefined();
+  });
+
+  it.concurrent('waits for async conditions with await using', async () => {
+    const latch = new Latch();
+    {
+      await using _ = latch.use(async () => {
+        await timeout(5);
+        return true;
+      });
+      expect(latch.isOpen).toBe(false);
+    }
+    expect(latch.isOpen).toBe(true);
+
+    {
+      await using _ = latch.use(() => Promise.resolve(false));
+    }
+    expect(latch.isOpen).toBe(false);
+
+    // Another use started while the condition was checked: the latch stays closed for it
+    let ready!: (satisfied: boolean) => void;
+    const first = latch.use(() => new Promise<boolean>(resolve => (ready = resolve)));
+    const disposing = first[Symbol.asyncDispose]();
+    const second = latch.use();
+    ready(true);
+    await disposing;
+    expect(latch.isOpen).toBe(false);
+    await first[Symbol.asyncDispose]();
+    second[Symbol.dispose]();
+    expect(latch.isOpen).toBe(true);
+  });
+
+  it.concurrent('opens after an async condition with plain using', async () => {
+    const latch = new Latch();
+    {
+      using _ = latch.use(async () => await Promise.resolve(true));
+    }
+    expect(latch.isOpen).toBe(false);
+    await latch.wait({ timeoutMs: 1000 });
+  });
+
+  it.concurrent('stays closed when an async condition rejects', async () => {
+    const latch = new Latch();
+    // Plain using: the rejection is not left unhandled, it counts as not satisfied
+    {
+      using _ = latch.use(() => Promise.reject(new Error('unreachable cache')));
+    }
+    await timeout(5);
+    expect(latch.isOpen).toBe(false);
+
+    const used = latch.use(() => Promise.reject(new Error('unreachable cache')));
+    await expect(used[Symbol.asyncDispose]()).rejects.toThrow('unreachable cache');
+    expect(latch.isOpen).toBe(false);
+
+    const throwing = latch.use(() => {
+      throw new Error('broken condition');
+    });
+    expect(() => throwing[Symbol.dispose]()).toThrow('broken condition');
+    expect(latch.isOpen).toBe(false);
+  });
+
+  it.concurrent('iterates over state changes', async () => {
+    const latch = new Latch();
+    const changes = latch.changes();
+    latch.open();
+    latch.open();
+    latch.close();
+    latch.use()[Symbol.dispose]();
+    expect(await changes.next()).toEqual({ value: 'open', done: false });
+    expect(await changes.next()).toEqual({ value: 'closed', done: false });
+    expect(await changes.next()).toEqual({ value: 'open', done: false });
+
+    const pending = changes.next();
+    setTimeout(() => latch.close(), 5);
+    expect(await pending).toEqual({ value: 'closed', done: false });
+
+    const seen: string[] = [];
+    setTimeout(() => latch.open(), 5);
+    for await (const state of latch.changes()) {
+      seen.push(state);
+      break;
+    }
+    expect(seen).toEqual(['open']);
+  });
+
+  it.concurrent('stops listening once the iteration returns', async () => {
+    const latch = new Latch();
+    const changes = latch.changes();
+    const pending = changes.next();
+    latch.open();
+    latch.close();
+    expect(await changes.return!()).toEqual({ value: undefined, done: true });
+    expect(await pending).toEqual({ value: 'open', done: false });
+
+    const waiting = changes.next();
+    latch.open();
+    latch.close();
+    expect(await waiting).toEqual({ value: undefined, done: true });
+    expect(await changes.next()).toEqual({ value: undefined, done: true });
+
+    const ending = latch.changes();
+    const unanswered = ending.next();
+    await ending.return!();
+    expect(await unanswered).toEqual({ value: undefined, done: true });
+  });
+
+  it('clears its timer once the wait is over', async () => {
+    vi.useFakeTimers();
+    try {
+      const latch = new Latch();
+      const waiting = latch.wait({ timeoutMs: 60000 });
+      expect(vi.getTimerCount()).toBe(1);
+      latch.open();
+      await waiting;
+      expect(vi.getTimerCount()).toBe(0);
+
+      latch.close();
+      const timedOut = latch.wait({ timeoutMs: 100 });
+      const expectation = expect(timedOut).rejects.toThrow(LockTimeoutError);
+      await vi.advanceTimersByTimeAsync(100);
+      await expectation;
+      expect(vi.getTimerCount()).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
 });
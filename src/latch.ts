@@ -1,3 +1,35 @@
+import { cancellation, race } from './cancellation';
+import { LockTimeoutError } from './errors';
+import { LockInstrumentation } from './instrumentation';
+import type { LockListener } from './metrics';
+
+function ignore() {
+  return;
+}
+
+/**
+ * Options accepted by {@link Latch.wait} and the other methods waiting for a state change.
+ */
+export interface WaitOptions {
+  /** Stops waiting when aborted; the wait rejects with the signal's reason. */
+  signal?: AbortSignal;
+  /** Stops waiting after this many milliseconds; the wait rejects with {@link LockTimeoutError}. */
+  timeoutMs?: number;
+}
+
+/**
+ * The states of a {@link Latch}, as yielded by {@link Latch.changes}.
+ */
+export type LatchState = 'open' | 'closed';
+
+/**
+ * Options accepted by the {@link Latch} constructor.
+ */
+export interface LatchOptions {
+  /** A name identifying the latch in events. Defaults to `'Latch'`. */
+  name?: string;
+}
+
 /**
  * A synchronization primitive that acts as a gate for awaiting promises.
  * Latch can be opened or closed to control flow in asynchronous code, similar to a manual reset event.
@@ -19,15 +51,37 @@
 export class Latch {
   private m_open: (() => void) | null = null;
   private m_gate!: Promise<void>;
+  private m_changedAt = performance.now();
+  private readonly m_instrumentation: LockInstrumentation;
+
+  /**
+   * The name of the latch, as reported in events.
+   */
+  public readonly name: string;
 
   /**
    * Initializes a new Latch instance in the closed state.
    * The gate promise will not resolve until open() is called.
+   *
+   * @param options - Optional settings, such as a name used in events.
    */
-  public constructor() {
+  public constructor(options: LatchOptions = {}) {
+    this.name = options.name ?? 'Latch';
+    this.m_instrumentation = new LockInstrumentation(this.name);
     this.close();
   }
 
+  /**
+   * Starts calling the listener whenever the latch opens or closes, with how long it stayed
+   * in the previous state. Feed it to {@link LockMetrics} for aggregated counts and histograms.
+   *
+   * @param listener - The function receiving the events.
+   * @returns A function that stops the listener.
+   */
+  public observe(listener: LockListener) {
+    return this.m_instrumentation.observe(listener);
+  }
+
   /**
    * Gets a promise that resolves when the latch is opened.
    * If the latch state changes during await, it recursively awaits the new gate
@@ -40,6 +94,39 @@ export class Latch {
     return gate.then(() => (this.m_gate === gate ? undefined : this.gate));
   }
 
+  /**
+   * Waits until the latch is open, like {@link gate}, but can give up.
+   * Unlike racing the gate against a timer, nothing is left behind once the wait is over.
+   *
+   * @param options - Options such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise that resolves when the latch is open.
+   * @throws {LockTimeoutError} If `timeoutMs` elapses before the latch opens.
+   * @example
+   * ```typescript
+   * await ready.wait({ timeoutMs: 5000, signal: request.signal });
+   * ```
+   */
+  public async wait(options: WaitOptions = {}) {
+    const { signal, timeoutMs } = options;
+    signal?.throwIfAborted();
+    if (this.isOpen) return;
+    const cancel = cancellation(signal, timeoutMs, ms => new LockTimeoutError(this.name, ms));
+    try {
+      await race(this.gate, cancel);
+    } finally {
+      cancel?.dispose();
+    }
+  }
+
+  /**
+   * Whether the latch is open right now, so that awaiting the gate would not wait.
+   *
+   * @returns true if the latch is open, false if it is closed.
+   */
+  public get isOpen() {
+    return this.m_open === null;
+  }
+
   /**
    * Opens the latch, resolving the current gate promise.
    * No-op if already open. Allows all awaiting code to proceed.
@@ -48,6 +135,7 @@ export class Latch {
     if (this.m_open === null) return;
     this.m_open();
     this.m_open = null;
+    this.m_instrumentation.emit({ type: 'open', lockName: this.name, closedMs: this.changed() });
   }
 
   /**
@@ -62,9 +150,21 @@ export class Latch {
     if (open !== null) {
       // make sure the old latch gate is now open
       open();
+    } else {
+      this.m_instrumentation.emit({ type: 'close', lockName: this.name, openMs: this.changed() });
     }
   }
 
+  /**
+   * Restarts the clock of the current state and returns how long the previous one lasted.
+   */
+  private changed() {
+    const now = performance.now();
+    const elapsedMs = now - this.m_changedAt;
+    this.m_changedAt = now;
+    return elapsedMs;
+  }
+
   private m_inUse = 0;
 
   /**
@@ -72,22 +172,93 @@ export class Latch {
    * The latch remains closed until all uses are disposed and the optional condition (if provided) is true.
    * Perfect for managing resources that require multiple async operations to complete before proceeding.
    *
+   * The condition may be async: with `await using`, disposal waits for it and rejects if it does.
+   * With plain `using`, nobody waits for it, so a rejected condition just leaves the latch closed.
+   * The latch does not open if another use started while the condition was being checked.
+   *
    * @param condition - Optional function that must return true to open on final dispose.
-   * @returns A disposable object that decrements the count and potentially opens the latch on dispose.
+   * @returns A disposable object, for `using` or `await using`, that decrements the count and
+   *   potentially opens the latch on dispose. Disposing it again does nothing.
    * @example
    * ```typescript
    * {
    *   using _ = latch.use(() => someCondition);
    *   // Latch closed during this scope
    * } // Opens if count == 0 and condition true
+   *
+   * {
+   *   await using _ = latch.use(async () => await cache.isWarm());
+   * } // Opens once the condition resolved to true
    * ```
    */
-  public use(condition?: () => boolean) {
+  public use(condition?: () => boolean | PromiseLike<boolean>) {
     ++this.m_inUse;
     this.close();
+    let disposed = false;
+    const dispose = (): Promise<void> | undefined => {
+      if (disposed) return;
+      disposed = true;
+      const satisfied = --this.m_inUse === 0 && (condition === undefined || condition());
+      if (typeof satisfied === 'boolean') return void (satisfied && this.openUnused());
+      return Promise.resolve(satisfied).then(satisfied => void (satisfied && this.openUnused()));
+    };
+    return {
+      // Nobody awaits plain using, so a rejected condition counts as not satisfied
+      [Symbol.dispose]: () => void dispose()?.catch(ignore),
+      [Symbol.asyncDispose]: async () => void (await dispose()),
+    };
+  }
+
+  /**
+   * Opens the latch unless it is in use again.
+   */
+  private openUnused() {
+    if (this.m_inUse === 0) this.open();
+  }
+
+  /**
+   * Returns an async iterator of the states the latch changes to, from now on. Changes happening
+   * while the consumer is busy are buffered, in order. Breaking out of a `for await` loop, or
+   * calling `return()`, stops listening to the latch and ends pending `next()` calls.
+   *
+   * @returns An async iterator yielding `'open'` and `'closed'` on every change.
+   * @example
+   * ```typescript
+   * for await (const state of latch.changes()) {
+   *   banner.hidden = state === 'open';
+   * }
+   * ```
+   */
+  public changes(): AsyncIterableIterator<LatchState, undefined> {
+    const buffered: LatchState[] = [];
+    const pending: ((result: IteratorResult<LatchState, undefined>) => void)[] = [];
+    const stop = this.observe(event => {
+      if (event.type !== 'open' && event.type !== 'close') return;
+      const state = event.type === 'open' ? 'open' : 'closed';
+      const next = pending.shift();
+      if (next === undefined) buffered.push(state);
+      else next({ value: state, done: false });
+    });
+    let done = false;
+    const end = (): IteratorResult<LatchState, undefined> => ({ value: undefined, done: true });
     return {
-      [Symbol.dispose]: () => {
-        !--this.m_inUse && (condition === undefined || condition()) && this.open();
+      next: async () => {
+        const state = buffered.shift();
+        if (state !== undefined) return { value: state, done: false };
+        if (done) return end();
+        return await new Promise(resolve => pending.push(resolve));
+      },
+      return: async () => {
+        if (!done) {
+          done = true;
+          stop();
+          buffered.length = 0;
+          for (const resolve of pending.splice(0)) resolve(end());
+        }
+        return end();
+      },
+      [Symbol.asyncIterator]() {
+        return this;
       },
     };
   }
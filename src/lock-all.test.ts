@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { KeyedMutex, KeyedMutexRW, lockAll, Mutex, MutexRW, obtainAll, timeout } from '.';
+
+describe('lock-all', { timeout: 10000 }, () => {
+  it.concurrent('never deadlocks when taking locks in opposite orders', async () => {
+    const accounts = Array.from({ length: 4 }, () => ({ mutex: new Mutex(), balance: 100 }));
+    const transfer = async (from: number, to: number) => {
+      using _ = await lockAll(accounts[from].mutex, accounts[to].mutex);
+      const balance = accounts[from].balance;
+      await timeout(Math.random() * 2);
+      accounts[from].balance = balance - 1;
+      accounts[to].balance += 1;
+    };
+    // Every pair of accounts, in both directions
+    await Promise.all(Array.from({ length: 48 }, (_, i) => transfer(i % 4, (i + 1 + (i % 3)) % 4)));
+    expect(accounts.reduce((sum, account) => sum + account.balance, 0)).toBe(400);
+    expect(accounts.every(account => !account.mutex.isLocked)).toBe(true);
+  });
+
+  it.concurrent('releases everything in reverse order', async () => {
+    const a = new Mutex({ name: 'a' });
+    const b = new MutexRW({ name: 'b' });
+    // Seen first, a comes first in the global order
+    (await obtainAll(a))();
+    (await obtainAll(b))();
+    const events: string[] = [];
+    a.observe(event => events.push(`${event.type} ${event.lockName}`));
+    b.observe(event => events.push(`${event.type} ${event.lockName}`));
+
+    const release = await obtainAll(b, a);
+    expect(a.isLocked).toBe(true);
+    expect(b.isWriteLocked).toBe(true);
+    release();
+    release();
+    expect(events.filter(event => !event.startsWith('acquire-requested'))).toEqual([
+      'acquired a',
+      'acquired b',
+      'released b',
+      'released a',
+    ]);
+  });
+
+  it.concurrent('takes read locks, keyed locks and duplicates', async () => {
+    const rw = new MutexRW();
+    const users = new KeyedMutex<string>();
+    const documents = new KeyedMutexRW<number>();
+    const reader = await rw.obtainRead();
+    {
+      using _ = await lockAll(
+        { lock: rw, mode: 'read' },
+        { lock: users, key: 'bob' },
+        { lock: users, key: 'alice' },
+        { lock: documents, key: 2, mode: 'read' },
+        { lock: documents, key: 1 },
+        { lock: users, key: 'bob' },
+      );
+      expect(rw.activeReadCount).toBe(2);
+      expect(users.isLocked('alice') && users.isLocked('bob')).toBe(true);
+      expect(documents.isReadLocked(2)).toBe(true);
+      expect(documents.isWriteLocked(1)).toBe(true);
+    }
+    expect(rw.activeReadCount).toBe(1);
+    expect(users.size + documents.size).toBe(0);
+    reader();
+
+    // Read and write requests for one lock take it for writing
+    const release = await obtainAll({ lock: rw, mode: 'read' }, rw);
+    expect(rw.isWriteLocked).toBe(true);
+    release();
+  });
+
+  it.concurrent('agrees on the order of keys across calls', async () => {
+    const keyed = new KeyedMutex<unknown>();
+    const objectKey = {};
+    const keys: unknown[] = ['b', 1, objectKey, 'a', 2n, null, true];
+    let cntAccess = 0;
+    const f = async (order: unknown[]) => {
+      using _ = await lockAll(...order.map(key => ({ lock: keyed, key })));
+      expect(++cntAccess).toBe(1);
+      await timeout(Math.random() * 2);
+      --cntAccess;
+    };
+    await Promise.all(Array.from({ length: 20 }, (_, i) => f(i % 2 ? keys : [...keys].reverse())));
+    expect(keyed.size).toBe(0);
+  });
+
+  it.concurrent('orders symbols sharing a description', async () => {
+    const keyed = new KeyedMutex<symbol>();
+    const [a, b] = [Symbol(), Symbol()];
+    const f = async (order: symbol[]) => {
+      using _ = await lockAll(...order.map(key => ({ lock: keyed, key })));
+      await timeout(5);
+    };
+    const both = Promise.all([f([a, b]), f([b, a]), f([a, b]), f([b, a])]);
+    // Would time out if the two calls took the symbols in argument order
+    const deadlocked = timeout(1000).then(() => 'deadlocked');
+    expect(await Promise.race([both, deadlocked])).not.toBe('deadlocked');
+    expect(keyed.size).toBe(0);
+  });
+
+  it.concurrent('releases what it holds when an acquisition fails', async () => {
+    class FailingMutex extends Mutex {
+      public override obtain(): Promise<() => void> {
+        return Promise.reject(new Error('boom'));
+      }
+    }
+    const a = new Mutex();
+    const b = new MutexRW();
+    (await obtainAll(a, b))();
+    // Seen last, so ordered after the locks already known
+    const failing = new FailingMutex();
+    await expect(obtainAll(failing, b, a)).rejects.toThrow('boom');
+    expect(a.isLocked || b.isWriteLocked).toBe(false);
+  });
+});
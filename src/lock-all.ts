@@ -0,0 +1,134 @@
+import { KeyedMutex, KeyedMutexRW } from './keyed-mutex';
+import { Mutex, MutexRW } from './mutex';
+
+/**
+ * One lock to take with {@link lockAll}. A {@link Mutex} is taken exclusively, a {@link MutexRW}
+ * for writing unless a `mode` says otherwise; keyed locks name the key to take.
+ *
+ * @template K - The key type of a keyed lock.
+ */
+export type LockAllTarget<K = unknown> =
+  | Mutex
+  | MutexRW
+  | { readonly lock: MutexRW; readonly mode: 'read' | 'write' }
+  | { readonly lock: KeyedMutex<K>; readonly key: K }
+  | { readonly lock: KeyedMutexRW<K>; readonly key: K; readonly mode?: 'read' | 'write' };
+
+/**
+ * The targets of one {@link lockAll} call, each keyed lock checked against its own key type.
+ */
+type LockAllTargets<Keys extends unknown[]> = { [I in keyof Keys]: LockAllTarget<Keys[I]> };
+
+type Lock = Mutex | MutexRW | KeyedMutex<unknown> | KeyedMutexRW<unknown>;
+
+interface Acquisition {
+  lock: Lock;
+  key: unknown;
+  mode: 'read' | 'write';
+}
+
+// Identities handed out in order of first use, the global order every lockAll call agrees on
+const identities = new WeakMap<object, number>();
+// Registered symbols cannot be weak keys, so symbols keep their identity for good
+const symbolIdentities = new Map<symbol, number>();
+let nextIdentity = 0;
+
+function identityOf(value: object | symbol) {
+  let identity = typeof value === 'symbol' ? symbolIdentities.get(value) : identities.get(value);
+  if (identity === undefined) {
+    identity = nextIdentity++;
+    if (typeof value === 'symbol') symbolIdentities.set(value, identity);
+    else identities.set(value, identity);
+  }
+  return identity;
+}
+
+const TYPE_RANKS = ['undefined', 'boolean', 'number', 'bigint', 'string', 'symbol', 'object', 'function'];
+
+/**
+ * Orders the keys of one keyed lock: by type, then by value for primitives and by identity for
+ * symbols and objects.
+ */
+function compareKeys(a: unknown, b: unknown) {
+  const rankA = a === null ? -1 : TYPE_RANKS.indexOf(typeof a);
+  const rankB = b === null ? -1 : TYPE_RANKS.indexOf(typeof b);
+  if (rankA !== rankB) return rankA - rankB;
+  if ((typeof a === 'object' && a !== null) || typeof a === 'function' || typeof a === 'symbol') {
+    return identityOf(a) - identityOf(b as object | symbol);
+  }
+  const [valueA, valueB] = [a as string, b as string];
+  return valueA < valueB ? -1 : valueA > valueB ? 1 : 0;
+}
+
+function normalize(target: LockAllTarget): Acquisition {
+  if (target instanceof Mutex || target instanceof MutexRW) return { lock: target, key: undefined, mode: 'write' };
+  return {
+    lock: target.lock as Lock,
+    key: 'key' in target ? target.key : undefined,
+    mode: 'mode' in target ? (target.mode ?? 'write') : 'write',
+  };
+}
+
+function acquire({ lock, key, mode }: Acquisition): Promise<() => void> {
+  if (lock instanceof Mutex) return lock.obtain();
+  if (lock instanceof MutexRW) return mode === 'read' ? lock.obtainRead() : lock.obtainWrite();
+  if (lock instanceof KeyedMutex) return lock.obtain(key);
+  return mode === 'read' ? lock.obtainRead(key) : lock.obtainWrite(key);
+}
+
+/**
+ * Acquires several locks at once without deadlocking against other `obtainAll` and {@link lockAll}
+ * calls, and returns one function releasing them all. Locks are taken one at a time in a global
+ * order of identities the library assigns, whatever the order of the arguments; so two calls
+ * taking the same locks in opposite orders cannot each hold what the other waits for.
+ *
+ * A lock passed more than once is taken once, for writing if any of its requests is for writing.
+ *
+ * @param targets - The locks to take, see {@link LockAllTarget}.
+ * @returns A promise resolving to a function that releases every lock, in reverse order of acquisition.
+ */
+export async function obtainAll<Keys extends unknown[]>(...targets: LockAllTargets<Keys>): Promise<() => void> {
+  const acquisitions: Acquisition[] = [];
+  for (const target of (targets as LockAllTarget[]).map(normalize)) {
+    const same = acquisitions.find(
+      acquisition => acquisition.lock === target.lock && Object.is(acquisition.key, target.key),
+    );
+    if (same === undefined) acquisitions.push(target);
+    else if (target.mode === 'write') same.mode = 'write';
+  }
+  acquisitions.sort((a, b) => identityOf(a.lock) - identityOf(b.lock) || compareKeys(a.key, b.key));
+
+  const releases: (() => void)[] = [];
+  const releaseAll = () => {
+    for (let release = releases.pop(); release !== undefined; release = releases.pop()) release();
+  };
+  try {
+    for (const acquisition of acquisitions) releases.push(await acquire(acquisition));
+  } catch (error) {
+    releaseAll();
+    throw error;
+  }
+  return releaseAll;
+}
+
+/**
+ * Acquires several locks at once, like {@link obtainAll}, and returns a disposable object for use
+ * with 'using' syntax.
+ *
+ * @param targets - The locks to take, see {@link LockAllTarget}.
+ * @returns A promise resolving to an object with [Symbol.dispose] that releases every lock,
+ *   in reverse order of acquisition.
+ * @example
+ * ```typescript
+ * async function transfer(from: Account, to: Account, amount: number) {
+ *   using _ = await lockAll(from.mutex, to.mutex, { lock: rates, mode: 'read' });
+ *   from.balance -= amount;
+ *   to.balance += amount;
+ * }
+ * ```
+ */
+export async function lockAll<Keys extends unknown[]>(...targets: LockAllTargets<Keys>) {
+  return {
+    [Symbol.dispose]: await obtainAll(...targets),
+  };
+}
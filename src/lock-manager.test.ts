@@ -0,0 +1,153 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Latch, LockManager, timeout } from '.';
+
+describe('lock-manager', { timeout: 10000 }, () => {
+  it.concurrent('never allows exclusive holders interfere', async () => {
+    const locks = new LockManager();
+    let cntAccess = 0;
+    const f = () =>
+      locks.request('resource', async lock => {
+        expect(lock).toEqual({ name: 'resource', mode: 'exclusive' });
+        expect(++cntAccess).toBe(1);
+        await timeout(Math.random() * 5);
+        --cntAccess;
+      });
+    await Promise.all(Array.from({ length: 20 }, f));
+    expect(cntAccess).toBe(0);
+    expect(await locks.query()).toEqual({ held: [], pending: [] });
+  });
+
+  it.concurrent('resolves with the callback result and releases on failure', async () => {
+    const locks = new LockManager();
+    expect(await locks.request('a', () => 42)).toBe(42);
+    expect(await locks.request('a', async () => 'async')).toBe('async');
+    await expect(
+      locks.request('a', () => {
+        throw new Error('boom');
+      }),
+    ).rejects.toThrow('boom');
+    expect(await locks.request('a', { ifAvailable: true }, lock => lock?.name)).toBe('a');
+  });
+
+  it.concurrent('shares shared locks, in request order with exclusive ones', async () => {
+    const locks = new LockManager({ clientId: 'test' });
+    const order: string[] = [];
+    const latch = new Latch();
+    const holding = (label: string, mode: 'shared' | 'exclusive') =>
+      locks.request('doc', { mode }, async () => {
+        order.push(`${label}+`);
+        await latch.gate;
+        order.push(`${label}-`);
+      });
+    const requests = [holding('r1', 'shared'), holding('r2', 'shared'), holding('w', 'exclusive')];
+    const late = holding('r3', 'shared');
+    await timeout(5);
+    expect(order).toEqual(['r1+', 'r2+']);
+    expect(await locks.query()).toEqual({
+      held: [
+        { name: 'doc', mode: 'shared', clientId: 'test' },
+        { name: 'doc', mode: 'shared', clientId: 'test' },
+      ],
+      pending: [
+        { name: 'doc', mode: 'exclusive', clientId: 'test' },
+        { name: 'doc', mode: 'shared', clientId: 'test' },
+      ],
+    });
+
+    latch.open();
+    await Promise.all([...requests, late]);
+    expect(order).toEqual(['r1+', 'r2+', 'r1-', 'r2-', 'w+', 'w-', 'r3+', 'r3-']);
+  });
+
+  it.concurrent('calls back with null when unavailable', async () => {
+    const locks = new LockManager();
+    const latch = new Latch();
+    const held = locks.request('job', () => latch.gate);
+    expect(await locks.request('job', { ifAvailable: true }, lock => lock)).toBeNull();
+    expect(await locks.request('other', { ifAvailable: true }, lock => lock)).not.toBeNull();
+    latch.open();
+    await held;
+  });
+
+  it.concurrent('stops waiting when the signal aborts', async () => {
+    const locks = new LockManager();
+    const latch = new Latch();
+    const held = locks.request('job', () => latch.gate);
+    const controller = new AbortController();
+    const callback = vi.fn();
+    const waiting = locks.request('job', { signal: controller.signal }, callback);
+    await timeout(5);
+    controller.abort();
+    await expect(waiting).rejects.toMatchObject({ name: 'AbortError' });
+    expect((await locks.query()).pending).toEqual([]);
+    await expect(locks.request('job', { signal: controller.signal }, callback)).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+    latch.open();
+    await held;
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it.concurrent('steals a held lock ahead of the waiters', async () => {
+    const locks = new LockManager();
+    const order: string[] = [];
+    const latch = new Latch();
+    const holder = locks.request('job', async () => {
+      await latch.gate;
+      order.push('holder done');
+    });
+    const waiter = locks.request('job', () => order.push('waiter'));
+    await timeout(5);
+
+    const thief = locks.request('job', { steal: true }, async () => {
+      order.push('thief');
+      await timeout(5);
+    });
+    await expect(holder).rejects.toMatchObject({ name: 'AbortError' });
+    await thief;
+    await waiter;
+    expect(order).toEqual(['thief', 'waiter']);
+    latch.open();
+    await timeout(5);
+    expect(order).toEqual(['thief', 'waiter', 'holder done']);
+    expect(await locks.query()).toEqual({ held: [], pending: [] });
+  });
+
+  it.concurrent('rejects reserved names and conflicting options', async () => {
+    const locks = new LockManager();
+    const callback = vi.fn();
+    const notSupported = { name: 'NotSupportedError' };
+    await expect(locks.request('-reserved', callback)).rejects.toMatchObject(notSupported);
+    await expect(locks.request('a', { steal: true, ifAvailable: true }, callback)).rejects.toMatchObject(
+      notSupported,
+    );
+    await expect(locks.request('a', { steal: true, mode: 'shared' }, callback)).rejects.toMatchObject(
+      notSupported,
+    );
+    const { signal } = new AbortController();
+    await expect(locks.request('a', { ifAvailable: true, signal }, callback)).rejects.toMatchObject(
+      notSupported,
+    );
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('hands off to navigator.locks when asked to', async () => {
+    const native = {
+      request: vi.fn(async (_name: string, _options: object, callback: (lock: null) => unknown) => callback(null)),
+      query: vi.fn(async () => ({ held: [], pending: [] })),
+    };
+    vi.stubGlobal('navigator', { locks: native });
+    try {
+      expect(new LockManager().isNative).toBe(false);
+      const locks = new LockManager({ native: true });
+      expect(locks.isNative).toBe(true);
+      expect(await locks.request('a', { mode: 'shared' }, () => 'native')).toBe('native');
+      expect(native.request).toHaveBeenCalledWith('a', { mode: 'shared' }, expect.any(Function));
+      await locks.query();
+      expect(native.query).toHaveBeenCalled();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+    expect(new LockManager({ native: true }).isNative).toBe(false);
+  });
+});
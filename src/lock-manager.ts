@@ -0,0 +1,316 @@
+import { MutexRW } from './mutex';
+
+/**
+ * How a lock of a {@link LockManager} is held: `'exclusive'` by one holder, `'shared'` by many.
+ */
+export type LockManagerMode = 'exclusive' | 'shared';
+
+/**
+ * The lock passed to the callback of {@link LockManager.request}.
+ */
+export interface GrantedLock {
+  readonly name: string;
+  readonly mode: LockManagerMode;
+}
+
+/**
+ * A held or pending request, as listed by {@link LockManager.query}.
+ */
+export interface LockInfo {
+  readonly name: string;
+  readonly mode: LockManagerMode;
+  /** The {@link LockManagerOptions.clientId} of the manager that made the request. */
+  readonly clientId: string;
+}
+
+/**
+ * The state of a {@link LockManager}, as returned by {@link LockManager.query}.
+ */
+export interface LockManagerSnapshot {
+  /** The granted requests, per name in the order they were granted. */
+  readonly held: LockInfo[];
+  /** The waiting requests, per name in the order they will be considered. */
+  readonly pending: LockInfo[];
+}
+
+/**
+ * Options accepted by {@link LockManager.request}, as in the Web Locks API.
+ */
+export interface LockRequestOptions {
+  /** Defaults to `'exclusive'`. */
+  mode?: LockManagerMode;
+  /** Calls the callback with null instead of waiting when the lock cannot be granted right away. */
+  ifAvailable?: boolean;
+  /**
+   * Releases the current holders and grants the lock ahead of every waiter. The requests of the
+   * former holders reject with an `AbortError`, while their callbacks keep running.
+   */
+  steal?: boolean;
+  /** Stops waiting once the signal aborts, rejecting with its reason. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options accepted by the {@link LockManager} constructor.
+ */
+export interface LockManagerOptions {
+  /** Identifies the manager in {@link LockManager.query} results. Defaults to a random UUID. */
+  clientId?: string;
+  /**
+   * Hands every call off to the runtime's `navigator.locks` when there is one, so that locks are
+   * shared with other tabs and workers. Defaults to false.
+   */
+  native?: boolean;
+}
+
+type LockCallback<T> = (lock: GrantedLock | null) => T;
+
+interface NativeLockManager {
+  request(name: string, options: LockRequestOptions, callback: LockCallback<unknown>): Promise<unknown>;
+  query(): Promise<LockManagerSnapshot>;
+}
+
+function nativeLocks() {
+  return (globalThis as { navigator?: { locks?: NativeLockManager } }).navigator?.locks;
+}
+
+interface Grant {
+  readonly info: LockInfo;
+  readonly release: () => void;
+  /** Rejects once the lock is stolen from the holder. */
+  readonly stolen: Promise<never>;
+  steal(): void;
+}
+
+function ignore() {
+  return;
+}
+
+function createGrant(info: LockInfo, release: () => void): Grant {
+  let steal!: () => void;
+  const stolen = new Promise<never>((_resolve, reject) => {
+    steal = () => reject(new DOMException(`Lock "${info.name}" was stolen`, 'AbortError'));
+  });
+  // The lock may be stolen before the callback starts and the request races against this
+  stolen.catch(ignore);
+  return { info, release, stolen, steal };
+}
+
+interface Waiter {
+  readonly info: LockInfo;
+  /** Queues the request on the current lock of its name, dropping any previous attempt. */
+  enqueue(): void;
+}
+
+interface NamedLock {
+  lock: MutexRW;
+  readonly held: Set<Grant>;
+  readonly waiters: Set<Waiter>;
+}
+
+function notSupported(message: string) {
+  return new DOMException(message, 'NotSupportedError');
+}
+
+/**
+ * An implementation of the Web Locks API (`navigator.locks`) on top of {@link MutexRW}, so that
+ * code written against it runs unchanged in Node.js and in tests. A request holds its lock for as
+ * long as its callback runs, and resolves with the callback's result.
+ *
+ * Locks are identified by name and scoped to the manager; waiters are served in arrival order,
+ * shared requests joining shared holders only when nobody waits ahead of them. With `native`,
+ * the manager defers to the runtime's own `navigator.locks` where one exists.
+ *
+ * @example
+ * ```typescript
+ * const locks = new LockManager({ native: true });
+ *
+ * const profile = await locks.request('profile', async () => {
+ *   return await refreshProfile();
+ * });
+ *
+ * await locks.request('sync', { ifAvailable: true }, async lock => {
+ *   if (lock === null) return; // another sync is running
+ *   await sync();
+ * });
+ * ```
+ */
+export class LockManager {
+  private readonly m_locks = new Map<string, NamedLock>();
+
+  /**
+   * Identifies this manager in {@link LockManager.query} results.
+   */
+  public readonly clientId: string;
+
+  /**
+   * Whether calls are handed off to the runtime's `navigator.locks`.
+   */
+  public readonly isNative: boolean;
+
+  /**
+   * Initializes a new LockManager with no held locks.
+   *
+   * @param options - Optional settings, such as the client id and whether to use the native API.
+   */
+  public constructor(options: LockManagerOptions = {}) {
+    this.clientId = options.clientId ?? crypto.randomUUID();
+    this.isNative = (options.native ?? false) && nativeLocks() !== undefined;
+  }
+
+  /**
+   * Waits for the named lock, then calls the callback while holding it. The lock is released once
+   * the promise returned by the callback settles.
+   *
+   * @param name - The name of the lock. Names starting with `'-'` are reserved.
+   * @param options - How to hold the lock and whether to wait for it.
+   * @param callback - Receives the granted lock, or null if `ifAvailable` could not be satisfied.
+   * @returns A promise resolving to the callback's result.
+   * @throws {DOMException} `NotSupportedError` for a reserved name or conflicting options,
+   *   `AbortError` if the lock is stolen while held; the signal's reason if it aborts while waiting.
+   */
+  public request<T>(name: string, callback: LockCallback<T>): Promise<Awaited<T>>;
+  public request<T>(name: string, options: LockRequestOptions, callback: LockCallback<T>): Promise<Awaited<T>>;
+  public async request<T>(
+    name: string,
+    optionsOrCallback: LockRequestOptions | LockCallback<T>,
+    maybeCallback?: LockCallback<T>,
+  ): Promise<Awaited<T>> {
+    const [options, callback] =
+      typeof optionsOrCallback === 'function' ? [{}, optionsOrCallback] : [optionsOrCallback, maybeCallback!];
+    if (this.isNative) return (await nativeLocks()!.request(name, options, callback)) as Awaited<T>;
+    const { mode = 'exclusive', ifAvailable = false, steal = false, signal } = options;
+    if (name.startsWith('-')) throw notSupported(`Lock names starting with "-" are reserved: "${name}"`);
+    if (steal && ifAvailable) throw notSupported('"steal" and "ifAvailable" cannot be combined');
+    if (steal && mode !== 'exclusive') throw notSupported('"steal" requires the exclusive mode');
+    if (signal !== undefined && (steal || ifAvailable)) {
+      throw notSupported('"signal" cannot be combined with "steal" or "ifAvailable"');
+    }
+    signal?.throwIfAborted();
+
+    const entry = this.enter(name);
+    const info: LockInfo = { name, mode, clientId: this.clientId };
+    let grant: Grant;
+    if (steal) {
+      grant = this.steal(entry, info);
+    } else if (ifAvailable) {
+      const release = mode === 'shared' ? entry.lock.tryObtainRead() : entry.lock.tryObtainWrite();
+      if (release === null) {
+        this.leave(name, entry);
+        return await callback(null);
+      }
+      grant = createGrant(info, release);
+      entry.held.add(grant);
+    } else {
+      try {
+        grant = await this.wait(entry, info, signal);
+      } finally {
+        this.leave(name, entry);
+      }
+    }
+
+    try {
+      return await Promise.race([(async () => await callback({ name, mode }))(), grant.stolen]);
+    } finally {
+      // A stolen grant was already dropped by the thief
+      if (entry.held.delete(grant)) grant.release();
+      this.leave(name, entry);
+    }
+  }
+
+  /**
+   * Lists the held and pending requests of this manager.
+   *
+   * @returns A promise resolving to the current state, in the shape of `navigator.locks.query()`.
+   */
+  public async query(): Promise<LockManagerSnapshot> {
+    if (this.isNative) return await nativeLocks()!.query();
+    const held: LockInfo[] = [];
+    const pending: LockInfo[] = [];
+    for (const entry of this.m_locks.values()) {
+      for (const grant of entry.held) held.push({ ...grant.info });
+      for (const waiter of entry.waiters) pending.push({ ...waiter.info });
+    }
+    return { held, pending };
+  }
+
+  private enter(name: string) {
+    let entry = this.m_locks.get(name);
+    if (entry === undefined) {
+      entry = { lock: this.createLock(name), held: new Set(), waiters: new Set() };
+      this.m_locks.set(name, entry);
+    }
+    return entry;
+  }
+
+  private leave(name: string, entry: NamedLock) {
+    if (entry.held.size === 0 && entry.waiters.size === 0 && this.m_locks.get(name) === entry) {
+      this.m_locks.delete(name);
+    }
+  }
+
+  private createLock(name: string) {
+    // Web Locks grant strictly in request order, which is what the fair policy does
+    return new MutexRW({ name, policy: 'fair' });
+  }
+
+  /**
+   * Queues the request and resolves once it holds the lock. The grant is recorded as held in the
+   * same step the waiter leaves the queue, so the name never looks unused in between.
+   */
+  private wait(entry: NamedLock, info: LockInfo, signal: AbortSignal | undefined) {
+    return new Promise<Grant>((resolve, reject) => {
+      let controller: AbortController | undefined;
+      const onAbort = () => controller!.abort(signal!.reason);
+      const settle = () => {
+        entry.waiters.delete(waiter);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const waiter: Waiter = {
+        info,
+        enqueue: () => {
+          controller?.abort();
+          const attempt = (controller = new AbortController());
+          const options = { signal: attempt.signal };
+          const acquiring = info.mode === 'shared' ? entry.lock.obtainRead(options) : entry.lock.obtainWrite(options);
+          acquiring.then(
+            release => {
+              // Granted by a lock that was stolen from in the meantime: the request moved on
+              if (attempt !== controller) return release();
+              settle();
+              const grant = createGrant(info, release);
+              entry.held.add(grant);
+              resolve(grant);
+            },
+            (error: unknown) => {
+              if (attempt !== controller) return;
+              settle();
+              reject(error);
+            },
+          );
+        },
+      };
+      entry.waiters.add(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      waiter.enqueue();
+    });
+  }
+
+  /**
+   * Grants the lock to a stealing request. The name gets a fresh lock taken by the thief, the
+   * waiters queue on it again in their order, and the former holders are told they lost the lock.
+   */
+  private steal(entry: NamedLock, info: LockInfo) {
+    const stolen = [...entry.held];
+    entry.held.clear();
+    entry.lock = this.createLock(info.name);
+    const grant = createGrant(info, entry.lock.tryObtainWrite()!);
+    entry.held.add(grant);
+    for (const waiter of entry.waiters) waiter.enqueue();
+    for (const holder of stolen) {
+      holder.release();
+      holder.steal();
+    }
+    return grant;
+  }
+}
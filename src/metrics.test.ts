@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { Latch, type LockEvent, LockMetrics, Mutex, MutexRW, timeout } from '.';
+
+describe('lock events', { timeout: 10000 }, () => {
+  it.concurrent('reports the life cycle of Mutex acquisitions', async () => {
+    const mutex = new Mutex({ name: 'db' });
+    const events: LockEvent[] = [];
+    const stop = mutex.observe(event => events.push(event));
+
+    const release = await mutex.obtain();
+    const second = mutex.obtain();
+    await timeout(20);
+    release();
+    (await second)();
+
+    expect(events.map(event => event.type)).toEqual([
+      'acquire-requested',
+      'acquired',
+      'acquire-requested',
+      'released',
+      'acquired',
+      'released',
+    ]);
+    const waited = events[4];
+    expect(waited).toMatchObject({ lockName: 'db', mode: 'exclusive' });
+    expect(waited.type === 'acquired' && waited.waitMs).toBeGreaterThanOrEqual(15);
+    const held = events[3];
+    expect(held.type === 'released' && held.holdMs).toBeGreaterThanOrEqual(15);
+
+    stop();
+    const count = events.length;
+    mutex.tryObtain()?.();
+    expect(events).toHaveLength(count);
+  });
+
+  it.concurrent('reports abandoned waits', async () => {
+    const mutex = new MutexRW();
+    const events: LockEvent[] = [];
+    mutex.observe(event => events.push(event));
+    const releaseWrite = await mutex.obtainWrite();
+    await expect(mutex.obtainRead({ timeoutMs: 10 })).rejects.toThrow();
+    releaseWrite();
+    releaseWrite();
+
+    expect(events.map(event => event.type)).toEqual([
+      'acquire-requested',
+      'acquired',
+      'acquire-requested',
+      'abandoned',
+      'released',
+    ]);
+    expect(events[3]).toMatchObject({ lockName: 'MutexRW', mode: 'read' });
+  });
+
+  it.concurrent('reports MutexRW modes through handles', async () => {
+    const mutex = new MutexRW();
+    const modes: string[] = [];
+    mutex.observe(event => event.type === 'released' && modes.push(event.mode));
+    using lock = await mutex.lockWrite();
+    lock.downgrade();
+    lock[Symbol.dispose]();
+    const handle = await mutex.obtainUpgradableRead();
+    await handle.upgrade();
+    handle.release();
+    mutex.tryObtainRead()?.();
+    expect(modes).toEqual(['write', 'upgradable', 'read']);
+  });
+
+  it.concurrent('reports latch state changes', async () => {
+    const latch = new Latch({ name: 'startup' });
+    const events: LockEvent[] = [];
+    latch.observe(event => events.push(event));
+    await timeout(10);
+    latch.open();
+    latch.open();
+    latch.close();
+    latch.close();
+    expect(events.map(event => event.type)).toEqual(['open', 'close']);
+    expect(events[0]).toMatchObject({ lockName: 'startup' });
+    expect(events[0].type === 'open' && events[0].closedMs).toBeGreaterThanOrEqual(5);
+  });
+
+  it.concurrent('keeps the lock working when a listener throws', async () => {
+    const mutex = new Mutex();
+    mutex.observe(() => {
+      throw new Error('faulty observer');
+    });
+    const errors: unknown[] = [];
+    const onError = (error: unknown) => errors.push(error);
+    process.on('uncaughtException', onError);
+    try {
+      (await mutex.obtain())();
+      expect(mutex.isLocked).toBe(false);
+      await timeout(0);
+    } finally {
+      process.off('uncaughtException', onError);
+    }
+    expect(errors).toHaveLength(3);
+  });
+});
+
+describe('lock metrics', { timeout: 10000 }, () => {
+  it.concurrent('counts events per lock name', async () => {
+    const metrics = new LockMetrics();
+    const mutex = new Mutex({ name: 'a' });
+    const latch = new Latch({ name: 'b' });
+    const detach = metrics.attach(mutex);
+    metrics.attach(latch);
+
+    await Promise.all(
+      [1, 2, 3].map(async () => {
+        using _ = await mutex.lock();
+        await timeout(2);
+      }),
+    );
+    latch.open();
+    detach();
+    mutex.tryObtain()?.();
+
+    const [a, b] = metrics.snapshot();
+    expect(a.lockName).toBe('a');
+    expect(a.counts).toMatchObject({ 'acquire-requested': 3, acquired: 3, released: 3, abandoned: 0 });
+    expect(a.waitMs.count).toBe(3);
+    expect(a.holdMs.count).toBe(3);
+    expect(a.holdMs.min).toBeGreaterThanOrEqual(1);
+    expect(b).toMatchObject({ lockName: 'b', counts: { open: 1 }, closedMs: { count: 1 } });
+
+    metrics.reset();
+    expect(metrics.snapshot()).toEqual([]);
+  });
+
+  it.concurrent('computes percentiles and cumulative buckets', () => {
+    const metrics = new LockMetrics({ buckets: [10, 100], percentiles: [50, 99] });
+    for (let ms = 1; ms <= 100; ++ms) {
+      metrics.record({ type: 'released', lockName: 'x', mode: 'exclusive', waitMs: 0, holdMs: ms });
+    }
+    metrics.record({ type: 'released', lockName: 'x', mode: 'exclusive', waitMs: 0, holdMs: 1000 });
+
+    const [{ holdMs }] = metrics.snapshot();
+    expect(holdMs).toMatchObject({ count: 101, min: 1, max: 1000, sum: 6050 });
+    expect(holdMs.percentiles[50]).toBeGreaterThanOrEqual(51);
+    expect(holdMs.percentiles[50]).toBeLessThanOrEqual(51 * 1.1);
+    expect(holdMs.percentiles[99]).toBeGreaterThanOrEqual(100);
+    expect(holdMs.percentiles[99]).toBeLessThanOrEqual(110);
+    expect(holdMs.buckets).toEqual([
+      { le: 10, count: 10 },
+      { le: 100, count: 100 },
+      { le: Infinity, count: 101 },
+    ]);
+  });
+
+  it.concurrent('summarizes empty histograms as zeros', () => {
+    const metrics = new LockMetrics();
+    metrics.record({ type: 'acquire-requested', lockName: 'x', mode: 'read' });
+    const [{ waitMs }] = metrics.snapshot();
+    expect(waitMs).toMatchObject({ count: 0, sum: 0, min: 0, max: 0, percentiles: { 50: 0, 90: 0, 99: 0 } });
+    expect(waitMs.buckets.at(-1)).toEqual({ le: Infinity, count: 0 });
+  });
+});
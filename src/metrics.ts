@@ -0,0 +1,263 @@
+import type { LockMode } from './diagnostics';
+
+/**
+ * An event emitted to the observers of a {@link Mutex}, {@link MutexRW} or {@link Latch}.
+ * Durations are in milliseconds.
+ *
+ * - `'acquire-requested'`: a task asked for the lock.
+ * - `'acquired'`: the task got the lock after waiting `waitMs`.
+ * - `'abandoned'`: the task gave up after waiting `waitMs`, through an abort signal or a timeout.
+ * - `'released'`: the task released the lock after holding it for `holdMs`.
+ * - `'open'` / `'close'`: a latch changed state after being closed for `closedMs` / open for `openMs`.
+ */
+export type LockEvent =
+  | { readonly type: 'acquire-requested'; readonly lockName: string; readonly mode: LockMode }
+  | { readonly type: 'acquired'; readonly lockName: string; readonly mode: LockMode; readonly waitMs: number }
+  | { readonly type: 'abandoned'; readonly lockName: string; readonly mode: LockMode; readonly waitMs: number }
+  | {
+      readonly type: 'released';
+      readonly lockName: string;
+      readonly mode: LockMode;
+      readonly waitMs: number;
+      readonly holdMs: number;
+    }
+  | { readonly type: 'open'; readonly lockName: string; readonly closedMs: number }
+  | { readonly type: 'close'; readonly lockName: string; readonly openMs: number };
+
+/**
+ * A function receiving the events of an observed lock.
+ */
+export type LockListener = (event: LockEvent) => void;
+
+/**
+ * Anything that can be observed with a {@link LockListener}: {@link Mutex}, {@link MutexRW}
+ * and {@link Latch}.
+ */
+export interface LockObservable {
+  /**
+   * Starts calling the listener for every event of the lock.
+   *
+   * @returns A function that stops the listener.
+   */
+  observe(listener: LockListener): () => void;
+}
+
+/**
+ * Statistics of a series of durations, in milliseconds. Percentiles are estimated from
+ * buckets about 9% wide, and always lie between `min` and `max`.
+ */
+export interface DurationSummary {
+  readonly count: number;
+  readonly sum: number;
+  /** 0 when `count` is 0. */
+  readonly min: number;
+  /** 0 when `count` is 0. */
+  readonly max: number;
+  /** The requested percentiles, keyed by percentage, e.g. `percentiles[99]`. */
+  readonly percentiles: Readonly<Record<number, number>>;
+  /**
+   * Cumulative counts of durations less than or equal to each bucket bound, ending with
+   * `Infinity`, in the layout Prometheus-style histograms expect.
+   */
+  readonly buckets: readonly { readonly le: number; readonly count: number }[];
+}
+
+/**
+ * The aggregated events of one lock, as returned by {@link LockMetrics.snapshot}.
+ */
+export interface LockStats {
+  readonly lockName: string;
+  /** How many events of each type were seen. */
+  readonly counts: Readonly<Record<LockEvent['type'], number>>;
+  /** Time from request to acquisition, for acquisitions that succeeded. */
+  readonly waitMs: DurationSummary;
+  /** Time from acquisition to release. */
+  readonly holdMs: DurationSummary;
+  /** How long a latch stayed closed before each opening. */
+  readonly closedMs: DurationSummary;
+}
+
+/**
+ * Options accepted by the {@link LockMetrics} constructor.
+ */
+export interface LockMetricsOptions {
+  /** Upper bounds of the exported histogram buckets, in milliseconds. Defaults to 1ms up to 10s. */
+  buckets?: readonly number[];
+  /** The percentiles to compute for every summary. Defaults to `[50, 90, 99]`. */
+  percentiles?: readonly number[];
+}
+
+const DEFAULT_BUCKETS = [1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+const DEFAULT_PERCENTILES = [50, 90, 99];
+
+// Percentile buckets grow by 2^(1/8), about 9%, so an estimate is never off by more than that
+const STEPS_PER_DOUBLING = 8;
+
+class Histogram {
+  // Sparse, keyed by log2 step: only the magnitudes actually seen take memory
+  private readonly m_fine = new Map<number, number>();
+  // Per exported bucket, the last one counting everything above the highest bound
+  private readonly m_bucketCounts: number[];
+  private m_count = 0;
+  private m_sum = 0;
+  private m_min = Infinity;
+  private m_max = -Infinity;
+
+  public constructor(private readonly m_bounds: readonly number[]) {
+    this.m_bucketCounts = new Array<number>(m_bounds.length + 1).fill(0);
+  }
+
+  public record(ms: number) {
+    const bucket = this.m_bounds.findIndex(bound => ms <= bound);
+    ++this.m_bucketCounts[bucket === -1 ? this.m_bounds.length : bucket];
+    const index = Math.ceil(Math.log2(Math.max(ms, 1e-3)) * STEPS_PER_DOUBLING);
+    this.m_fine.set(index, (this.m_fine.get(index) ?? 0) + 1);
+    ++this.m_count;
+    this.m_sum += ms;
+    this.m_min = Math.min(this.m_min, ms);
+    this.m_max = Math.max(this.m_max, ms);
+  }
+
+  public summarize(percentages: readonly number[]): DurationSummary {
+    const fine = [...this.m_fine].sort(([a], [b]) => a - b);
+    const percentiles: Record<number, number> = {};
+    for (const percentage of percentages) {
+      percentiles[percentage] = this.percentile(fine, percentage);
+    }
+    let cumulative = 0;
+    return {
+      count: this.m_count,
+      sum: this.m_sum,
+      min: this.m_count ? this.m_min : 0,
+      max: this.m_count ? this.m_max : 0,
+      percentiles,
+      buckets: [...this.m_bounds, Infinity].map((le, i) => ({
+        le,
+        count: (cumulative += this.m_bucketCounts[i]),
+      })),
+    };
+  }
+
+  private percentile(fine: [number, number][], percentage: number) {
+    if (this.m_count === 0) return 0;
+    const rank = Math.max(1, Math.ceil((percentage / 100) * this.m_count));
+    let seen = 0;
+    for (const [index, count] of fine) {
+      seen += count;
+      if (seen >= rank) return Math.min(this.m_max, Math.max(this.m_min, upperBound(index)));
+    }
+    return this.m_max;
+  }
+}
+
+function upperBound(index: number) {
+  return 2 ** (index / STEPS_PER_DOUBLING);
+}
+
+class StatsAccumulator {
+  public readonly waitMs: Histogram;
+  public readonly holdMs: Histogram;
+  public readonly closedMs: Histogram;
+
+  public readonly counts: Record<LockEvent['type'], number> = {
+    'acquire-requested': 0,
+    acquired: 0,
+    abandoned: 0,
+    released: 0,
+    open: 0,
+    close: 0,
+  };
+
+  public constructor(bounds: readonly number[]) {
+    this.waitMs = new Histogram(bounds);
+    this.holdMs = new Histogram(bounds);
+    this.closedMs = new Histogram(bounds);
+  }
+}
+
+/**
+ * Aggregates the events of observed locks into counts and duration histograms, keyed by lock name,
+ * ready to be exported to a metrics pipeline. Locks sharing a name are aggregated together.
+ *
+ * @example
+ * ```typescript
+ * const metrics = new LockMetrics();
+ * metrics.attach(cacheLock);
+ * metrics.attach(startup);
+ *
+ * setInterval(() => {
+ *   for (const stats of metrics.snapshot()) {
+ *     gauge(`${stats.lockName}.wait.p99`, stats.waitMs.percentiles[99]);
+ *   }
+ * }, 60000);
+ * ```
+ */
+export class LockMetrics {
+  private readonly m_stats = new Map<string, StatsAccumulator>();
+  private readonly m_buckets: readonly number[];
+  private readonly m_percentiles: readonly number[];
+
+  /**
+   * Initializes a new LockMetrics with no recorded events.
+   *
+   * @param options - Optional settings, such as the histogram bucket bounds and percentiles.
+   */
+  public constructor(options: LockMetricsOptions = {}) {
+    this.m_buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+    this.m_percentiles = options.percentiles ?? DEFAULT_PERCENTILES;
+  }
+
+  /**
+   * Starts recording the events of the given lock.
+   *
+   * @param lock - The lock or latch to observe.
+   * @returns A function that stops recording its events.
+   */
+  public attach(lock: LockObservable) {
+    return lock.observe(event => this.record(event));
+  }
+
+  /**
+   * Records a single event. Useful to aggregate events from a listener of your own.
+   *
+   * @param event - The event to record.
+   */
+  public record(event: LockEvent) {
+    let stats = this.m_stats.get(event.lockName);
+    if (stats === undefined) this.m_stats.set(event.lockName, (stats = new StatsAccumulator(this.m_buckets)));
+    ++stats.counts[event.type];
+    switch (event.type) {
+      case 'acquired':
+        stats.waitMs.record(event.waitMs);
+        break;
+      case 'released':
+        stats.holdMs.record(event.holdMs);
+        break;
+      case 'open':
+        stats.closedMs.record(event.closedMs);
+        break;
+    }
+  }
+
+  /**
+   * Summarizes everything recorded since construction or the last {@link reset}.
+   *
+   * @returns The statistics of every lock that emitted an event, in order of first event.
+   */
+  public snapshot(): LockStats[] {
+    return [...this.m_stats].map(([lockName, stats]) => ({
+      lockName,
+      counts: { ...stats.counts },
+      waitMs: stats.waitMs.summarize(this.m_percentiles),
+      holdMs: stats.holdMs.summarize(this.m_percentiles),
+      closedMs: stats.closedMs.summarize(this.m_percentiles),
+    }));
+  }
+
+  /**
+   * Forgets everything recorded so far, e.g. after exporting a snapshot.
+   */
+  public reset() {
+    this.m_stats.clear();
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { LockReleasedError, MutexCell, MutexRWCell, timeout } from '.';
+
+describe('mutex-cell', { timeout: 10000 }, () => {
+  it.concurrent('keeps increments atomic', async () => {
+    const cell = new MutexCell(0);
+    const f = async () => {
+      using guard = await cell.lock();
+      const value = guard.value;
+      await timeout(Math.random() * 5);
+      guard.set(value + 1);
+    };
+    await Promise.all(Array.from({ length: 50 }, f));
+    using guard = await cell.lock();
+    expect(guard.value).toBe(50);
+  });
+
+  it.concurrent('runs async updates atomically', async () => {
+    const cell = new MutexCell(0);
+    const results = await Promise.all(
+      Array.from({ length: 20 }, () =>
+        cell.update(async value => {
+          await timeout(Math.random() * 5);
+          return value + 1;
+        }),
+      ),
+    );
+    expect(results.sort((a, b) => a - b)).toEqual(Array.from({ length: 20 }, (_v, i) => i + 1));
+    expect(cell.isLocked).toBe(false);
+  });
+
+  it('leaves the value unchanged when the update throws', async () => {
+    const cell = new MutexCell('initial');
+    await expect(
+      cell.update(() => {
+        throw new Error('boom');
+      }),
+    ).rejects.toThrow('boom');
+    using guard = await cell.lock();
+    expect(guard.value).toBe('initial');
+  });
+
+  it('throws when the value is accessed through a released guard', async () => {
+    const cell = new MutexCell({ count: 1 }, { name: 'counter' });
+    const guard = await cell.lock();
+    expect(cell.isLocked).toBe(true);
+
+    guard.release();
+    guard[Symbol.dispose]();
+    expect(cell.isLocked).toBe(false);
+    expect(() => guard.value).toThrow(LockReleasedError);
+    expect(() => guard.set({ count: 2 })).toThrow(LockReleasedError);
+    expect(() => guard.value).toThrow('"counter"');
+  });
+
+  it('reports waiting tasks', async () => {
+    const cell = new MutexCell(0);
+    const guard = await cell.lock();
+    const waiting = cell.lock();
+    await Promise.resolve();
+    expect(cell.waitingCount).toBe(1);
+    guard.release();
+    (await waiting).release();
+    expect(cell.waitingCount).toBe(0);
+  });
+});
+
+describe('mutex-rw-cell', { timeout: 10000 }, () => {
+  it.concurrent('shares reads and serializes writes', async () => {
+    const cell = new MutexRWCell({ count: 0 });
+    let readers = 0;
+    let maxReaders = 0;
+    const read = async () => {
+      using guard = await cell.lockRead();
+      maxReaders = Math.max(maxReaders, ++readers);
+      const before = guard.value.count;
+      await timeout(Math.random() * 5);
+      expect(guard.value.count).toBe(before);
+      --readers;
+    };
+    const write = () =>
+      cell.update(async current => {
+        await timeout(Math.random() * 5);
+        return { count: current.count + 1 };
+      });
+    await Promise.all(Array.from({ length: 40 }, (_v, i) => (i % 4 ? read() : write())));
+    using guard = await cell.lockRead();
+    expect(guard.value.count).toBe(10);
+    expect(maxReaders).toBeGreaterThan(1);
+  });
+
+  it('hands readers a guard without a setter', async () => {
+    const cell = new MutexRWCell([1, 2, 3]);
+    const guard = await cell.lockRead();
+    expect(cell.isReadLocked).toBe(true);
+    expect(guard.value).toEqual([1, 2, 3]);
+    expect('set' in guard).toBe(false);
+    guard.release();
+    expect(() => guard.value).toThrow(LockReleasedError);
+  });
+
+  it('lets writers replace the value', async () => {
+    const cell = new MutexRWCell('a');
+    {
+      using guard = await cell.lockWrite();
+      expect(cell.isWriteLocked).toBe(true);
+      guard.set('b');
+    }
+    using guard = await cell.lockRead();
+    expect(guard.value).toBe('b');
+  });
+});
@@ -0,0 +1,296 @@
+import { LockReleasedError } from './errors';
+import { type AcquireOptions, Mutex, MutexRW, type MutexRWPolicy } from './mutex';
+
+/**
+ * A read guard handed out by {@link MutexRWCell.lockRead}.
+ * Gives access to the protected value until the guard is released.
+ */
+export interface ReadonlyCellGuard<T> {
+  /**
+   * The protected value, typed as readonly since other readers may be looking at it too.
+   *
+   * @throws {LockReleasedError} If the guard has been released.
+   */
+  readonly value: Readonly<T>;
+  /** Releases the lock. Does nothing when called again. */
+  release(): void;
+  /** Same as {@link ReadonlyCellGuard.release}, for 'using' syntax. */
+  [Symbol.dispose](): void;
+}
+
+/**
+ * An exclusive guard handed out by {@link MutexCell.lock} and {@link MutexRWCell.lockWrite}.
+ * Gives read and write access to the protected value until the guard is released.
+ */
+export interface CellGuard<T> {
+  /**
+   * The protected value.
+   *
+   * @throws {LockReleasedError} If the guard has been released.
+   */
+  readonly value: T;
+  /**
+   * Replaces the protected value.
+   *
+   * @param value - The new value.
+   * @throws {LockReleasedError} If the guard has been released.
+   */
+  set(value: T): void;
+  /** Releases the lock. Does nothing when called again. */
+  release(): void;
+  /** Same as {@link CellGuard.release}, for 'using' syntax. */
+  [Symbol.dispose](): void;
+}
+
+interface CellAccess<T> {
+  name: string;
+  get(): T;
+  set(value: T): void;
+}
+
+function createGuard<T>(cell: CellAccess<T>, release: () => void): CellGuard<T> {
+  let released = false;
+  const assertHeld = () => {
+    if (released) throw new LockReleasedError(cell.name);
+  };
+  const releaseOnce = () => {
+    if (released) return;
+    released = true;
+    release();
+  };
+  return {
+    get value() {
+      assertHeld();
+      return cell.get();
+    },
+    set: value => {
+      assertHeld();
+      cell.set(value);
+    },
+    release: releaseOnce,
+    [Symbol.dispose]: releaseOnce,
+  };
+}
+
+function createReadGuard<T>(cell: CellAccess<T>, release: () => void): ReadonlyCellGuard<T> {
+  const guard = createGuard(cell, release);
+  return {
+    get value() {
+      return guard.value;
+    },
+    release: guard.release,
+    [Symbol.dispose]: guard.release,
+  };
+}
+
+/**
+ * Options accepted by the {@link MutexCell} constructor.
+ */
+export interface MutexCellOptions {
+  /** A name identifying the lock in errors. Defaults to `'MutexCell'`. */
+  name?: string;
+}
+
+/**
+ * Options accepted by the {@link MutexRWCell} constructor.
+ */
+export interface MutexRWCellOptions {
+  /** A name identifying the lock in errors. Defaults to `'MutexRWCell'`. */
+  name?: string;
+  /** The order in which readers and writers are granted the lock. Defaults to `'write-preferring'`. */
+  policy?: MutexRWPolicy;
+}
+
+/**
+ * A {@link Mutex} that owns the value it protects.
+ * With a separate lock and state nothing stops code from touching the state without locking;
+ * MutexCell only hands the value out through a guard obtained by locking, and the guard
+ * stops working once released, so the value cannot be read or changed outside the lock.
+ *
+ * @template T - The type of the protected value.
+ *
+ * @example
+ * ```typescript
+ * const counter = new MutexCell(0);
+ * {
+ *   using guard = await counter.lock();
+ *   guard.set(guard.value + 1);
+ * }
+ * await counter.update(async n => n + (await fetchDelta()));
+ * ```
+ */
+export class MutexCell<T> {
+  private readonly m_mutex: Mutex;
+  private m_value: T;
+
+  /**
+   * The name of the lock, as reported in errors.
+   */
+  public readonly name: string;
+
+  /**
+   * Initializes a new unlocked MutexCell holding the given value.
+   *
+   * @param value - The initial value to protect.
+   * @param options - Optional settings, such as a name used in error messages.
+   */
+  public constructor(value: T, options: MutexCellOptions = {}) {
+    this.m_value = value;
+    this.name = options.name ?? 'MutexCell';
+    this.m_mutex = new Mutex({ name: this.name });
+  }
+
+  /**
+   * Whether a guard is currently held.
+   *
+   * @returns true if the cell is locked, false otherwise.
+   */
+  public get isLocked() {
+    return this.m_mutex.isLocked;
+  }
+
+  /**
+   * The number of tasks currently waiting to lock the cell.
+   *
+   * @returns The count of waiting tasks in the queue.
+   */
+  public get waitingCount() {
+    return this.m_mutex.waitingCount;
+  }
+
+  /**
+   * Locks the cell and returns a guard exposing the value, for use with 'using' syntax.
+   *
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise resolving to a guard that releases the lock on dispose.
+   * @throws {LockTimeoutError} If `timeoutMs` elapses before the lock is acquired.
+   */
+  public async lock(options: AcquireOptions = {}): Promise<CellGuard<T>> {
+    return createGuard(this.access(), await this.m_mutex.obtain(options));
+  }
+
+  /**
+   * Replaces the value with the result of an async transform, atomically: no other task can
+   * lock the cell in between reading and writing. If the transform throws, the value is unchanged.
+   *
+   * @param transform - Computes the new value from the current one.
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise resolving to the new value.
+   */
+  public async update(transform: (value: T) => T | PromiseLike<T>, options: AcquireOptions = {}) {
+    using guard = await this.lock(options);
+    const value = await transform(guard.value);
+    guard.set(value);
+    return value;
+  }
+
+  private access(): CellAccess<T> {
+    return {
+      name: this.name,
+      get: () => this.m_value,
+      set: value => (this.m_value = value),
+    };
+  }
+}
+
+/**
+ * A {@link MutexRW} that owns the value it protects.
+ * Readers share a readonly view of the value, writers get exclusive read-write access,
+ * and neither can reach the value once their guard is released.
+ *
+ * @template T - The type of the protected value.
+ *
+ * @example
+ * ```typescript
+ * const config = new MutexRWCell({ retries: 3 });
+ * {
+ *   using guard = await config.lockRead();
+ *   console.log(guard.value.retries);
+ * }
+ * await config.update(current => ({ ...current, retries: 5 }));
+ * ```
+ */
+export class MutexRWCell<T> {
+  private readonly m_mutex: MutexRW;
+  private m_value: T;
+
+  /**
+   * The name of the lock, as reported in errors.
+   */
+  public readonly name: string;
+
+  /**
+   * Initializes a new unlocked MutexRWCell holding the given value.
+   *
+   * @param value - The initial value to protect.
+   * @param options - Optional settings, such as a name used in error messages and the fairness policy.
+   */
+  public constructor(value: T, options: MutexRWCellOptions = {}) {
+    this.m_value = value;
+    this.name = options.name ?? 'MutexRWCell';
+    this.m_mutex = new MutexRW({ name: this.name, policy: options.policy });
+  }
+
+  /**
+   * Whether any read guard is currently held.
+   *
+   * @returns true if read locks are held, false otherwise.
+   */
+  public get isReadLocked() {
+    return this.m_mutex.isReadLocked;
+  }
+
+  /**
+   * Whether a write guard is currently held.
+   *
+   * @returns true if the write lock is held, false otherwise.
+   */
+  public get isWriteLocked() {
+    return this.m_mutex.isWriteLocked;
+  }
+
+  /**
+   * Locks the cell for reading and returns a guard exposing a readonly view of the value.
+   *
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise resolving to a read guard that releases the lock on dispose.
+   * @throws {LockTimeoutError} If `timeoutMs` elapses before the lock is acquired.
+   */
+  public async lockRead(options: AcquireOptions = {}): Promise<ReadonlyCellGuard<T>> {
+    return createReadGuard(this.access(), await this.m_mutex.obtainRead(options));
+  }
+
+  /**
+   * Locks the cell for writing and returns a guard exposing the value and {@link CellGuard.set}.
+   *
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise resolving to a write guard that releases the lock on dispose.
+   * @throws {LockTimeoutError} If `timeoutMs` elapses before the lock is acquired.
+   */
+  public async lockWrite(options: AcquireOptions = {}): Promise<CellGuard<T>> {
+    return createGuard(this.access(), await this.m_mutex.obtainWrite(options));
+  }
+
+  /**
+   * Replaces the value with the result of an async transform under the write lock.
+   * If the transform throws, the value is unchanged.
+   *
+   * @param transform - Computes the new value from the current one.
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise resolving to the new value.
+   */
+  public async update(transform: (value: T) => T | PromiseLike<T>, options: AcquireOptions = {}) {
+    using guard = await this.lockWrite(options);
+    const value = await transform(guard.value);
+    guard.set(value);
+    return value;
+  }
+
+  private access(): CellAccess<T> {
+    return {
+      name: this.name,
+      get: () => this.m_value,
+      set: value => (this.m_value = value),
+    };
+  }
+}
@@ -1,5 +1,13 @@
 import { describe, expect, it } from 'vitest';
-import { Mutex, MutexRW, timeout } from '.';
+import {
+  LeaseExpiredError,
+  LockReleasedError,
+  LockTimeoutError,
+  Mutex,
+  MutexRW,
+  type MutexRWPolicy,
+  timeout,
+} from '.';
 
 describe('mutex', { timeout: 10000 }, () => {
   it.concurrent('works with errors', async () => {
@@ -192,6 +200,355 @@ describe('mutex', { timeout: 10000 }, () => {
       expect(mutex.isLocked).toBe(false);
     });
   });
+
+  describe('cancellation', () => {
+    it('rejects an aborted waiter with the signal reason', async () => {
+      const mutex = new Mutex();
+      const release = await mutex.obtain();
+      const controller = new AbortController();
+
+      const promise = mutex.obtain({ signal: controller.signal });
+      await Promise.resolve();
+      expect(mutex.waitingCount).toBe(1);
+
+      const reason = new Error('client disconnected');
+      controller.abort(reason);
+      await expect(promise).rejects.toBe(reason);
+      expect(mutex.waitingCount).toBe(0);
+      expect(mutex.isLocked).toBe(true);
+
+      release();
+    });
+
+    it('rejects immediately when the signal is already aborted', async () => {
+      const mutex = new Mutex();
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(mutex.obtain({ signal: controller.signal })).rejects.toBe(controller.signal.reason);
+      expect(mutex.waitingCount).toBe(0);
+      expect(mutex.isLocked).toBe(false);
+    });
+
+    it('does not block later waiters after an abort in the middle of the queue', async () => {
+      const mutex = new Mutex();
+      const release1 = await mutex.obtain();
+      const controller = new AbortController();
+
+      const aborted = mutex.obtain({ signal: controller.signal });
+      const promise3 = mutex.obtain();
+      await Promise.resolve();
+      expect(mutex.waitingCount).toBe(2);
+
+      controller.abort();
+      await expect(aborted).rejects.toBeDefined();
+      expect(mutex.waitingCount).toBe(1);
+
+      release1();
+      const release3 = await promise3;
+      expect(mutex.isLocked).toBe(true);
+      expect(mutex.waitingCount).toBe(0);
+      release3();
+    });
+
+    it('does not block later waiters after an abort at the end of the queue', async () => {
+      const mutex = new Mutex();
+      const release1 = await mutex.obtain();
+      const controller = new AbortController();
+
+      const aborted = mutex.obtain({ signal: controller.signal });
+      controller.abort();
+      await expect(aborted).rejects.toBeDefined();
+
+      release1();
+      const release2 = await mutex.obtain();
+      expect(mutex.isLocked).toBe(true);
+      release2();
+    });
+
+    it('acquires normally when the signal never aborts', async () => {
+      const mutex = new Mutex();
+      const controller = new AbortController();
+      {
+        using _ = await mutex.lock({ signal: controller.signal });
+        expect(mutex.isLocked).toBe(true);
+      }
+      controller.abort();
+      await Promise.resolve();
+      expect(mutex.isLocked).toBe(false);
+    });
+
+    it('supports bypass in the options form', async () => {
+      const mutex = new Mutex();
+      const release = await mutex.obtain();
+      using _ = await mutex.lock({ bypass: true });
+      expect(mutex.waitingCount).toBe(0);
+      release();
+    });
+  });
+
+  describe('timeouts', () => {
+    it('rejects with LockTimeoutError naming the lock', async () => {
+      const mutex = new Mutex({ name: 'cache' });
+      const release = await mutex.obtain();
+
+      const error = await mutex.obtain({ timeoutMs: 10 }).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(LockTimeoutError);
+      expect((error as LockTimeoutError).lockName).toBe('cache');
+      expect((error as LockTimeoutError).timeoutMs).toBe(10);
+      expect((error as LockTimeoutError).message).toContain('"cache"');
+      expect(mutex.waitingCount).toBe(0);
+
+      release();
+      const release2 = await mutex.obtain({ timeoutMs: 10 });
+      expect(mutex.isLocked).toBe(true);
+      release2();
+    });
+
+    it('defaults the lock name to the class name', async () => {
+      const mutex = new Mutex();
+      const release = await mutex.obtain();
+      await expect(mutex.lock({ timeoutMs: 0 })).rejects.toMatchObject({ lockName: 'Mutex' });
+      release();
+    });
+
+    it('acquires within the timeout', async () => {
+      const mutex = new Mutex();
+      const release = await mutex.obtain();
+      setTimeout(release, 5);
+      using _ = await mutex.lock({ timeoutMs: 1000 });
+      expect(mutex.isLocked).toBe(true);
+    });
+  });
+
+  describe('tryObtain', () => {
+    it('acquires a free lock synchronously', () => {
+      const mutex = new Mutex();
+      const release = mutex.tryObtain();
+      expect(release).not.toBeNull();
+      expect(mutex.isLocked).toBe(true);
+      expect(mutex.tryObtain()).toBeNull();
+      release!();
+      expect(mutex.isLocked).toBe(false);
+    });
+
+    it('returns null while others are waiting', async () => {
+      const mutex = new Mutex();
+      const release1 = await mutex.obtain();
+      const promise2 = mutex.obtain();
+
+      release1();
+      expect(mutex.isLocked).toBe(false);
+      expect(mutex.tryObtain()).toBeNull(); // the queued task goes first
+
+      const release2 = await promise2;
+      release2();
+      expect(mutex.tryObtain()).not.toBeNull();
+    });
+
+    it('makes later waiters queue behind it', async () => {
+      const mutex = new Mutex();
+      const release1 = mutex.tryObtain()!;
+      let acquired = false;
+      const promise2 = mutex.obtain().then(release => ((acquired = true), release));
+
+      await timeout(5);
+      expect(acquired).toBe(false);
+
+      release1();
+      (await promise2)();
+      expect(acquired).toBe(true);
+    });
+  });
+
+  describe('repeated release', () => {
+    it('does not unlock a mutex held by another task', async () => {
+      const mutex = new Mutex();
+      const release1 = await mutex.obtain();
+      const promise2 = mutex.obtain();
+      release1();
+      const release2 = await promise2;
+
+      release1();
+      expect(mutex.isLocked).toBe(true);
+      expect(mutex.tryObtain()).toBeNull();
+      release2();
+      expect(mutex.isLocked).toBe(false);
+    });
+
+    it('throws LockReleasedError in strict mode', async () => {
+      const mutex = new Mutex({ name: 'strict', strictRelease: true });
+      const release = await mutex.obtain();
+      release();
+      expect(() => release()).toThrow(LockReleasedError);
+      expect(() => release()).toThrow('Lock "strict" has already been released');
+
+      const tryRelease = mutex.tryObtain()!;
+      tryRelease();
+      expect(() => tryRelease()).toThrow(LockReleasedError);
+      expect(mutex.isLocked).toBe(false);
+    });
+
+    it('keeps bypass releases no-ops in strict mode', async () => {
+      const mutex = new Mutex({ strictRelease: true });
+      const release = await mutex.obtain(true);
+      release();
+      expect(() => release()).not.toThrow();
+    });
+  });
+
+  describe('priority', () => {
+    const queueUp = (mutex: Mutex, order: string[], name: string, priority?: number, signal?: AbortSignal) =>
+      mutex.obtain({ priority, signal }).then(release => {
+        order.push(name);
+        release();
+      });
+
+    it('grants higher priorities first, equal ones in arrival order', async () => {
+      const mutex = new Mutex();
+      const release = await mutex.obtain();
+      const order: string[] = [];
+      const waiters = [
+        queueUp(mutex, order, 'low 1', -1),
+        queueUp(mutex, order, 'normal 1'),
+        queueUp(mutex, order, 'high 1', 10),
+        queueUp(mutex, order, 'normal 2', 0),
+        queueUp(mutex, order, 'high 2', 10),
+        queueUp(mutex, order, 'low 2', -1),
+      ];
+      expect(mutex.waitingCountByPriority).toEqual(
+        new Map([
+          [10, 2],
+          [0, 2],
+          [-1, 2],
+        ]),
+      );
+      expect([...mutex.waitingCountByPriority.keys()]).toEqual([10, 0, -1]);
+
+      release();
+      await Promise.all(waiters);
+      expect(order).toEqual(['high 1', 'high 2', 'normal 1', 'normal 2', 'low 1', 'low 2']);
+      expect(mutex.waitingCountByPriority.size).toBe(0);
+    });
+
+    it('raises the priority of long waiters', async () => {
+      const mutex = new Mutex({ agingMs: 10 });
+      const release = await mutex.obtain();
+      const order: string[] = [];
+      const old = queueUp(mutex, order, 'old', 0);
+      await timeout(50);
+      const fresh = queueUp(mutex, order, 'fresh', 2);
+      release();
+      await Promise.all([old, fresh]);
+      expect(order).toEqual(['old', 'fresh']);
+    });
+
+    it('keeps strict priorities without aging', async () => {
+      const mutex = new Mutex({ agingMs: Infinity });
+      const release = await mutex.obtain();
+      const order: string[] = [];
+      const old = queueUp(mutex, order, 'old', 0);
+      await timeout(20);
+      const fresh = queueUp(mutex, order, 'fresh', 1);
+      release();
+      await Promise.all([old, fresh]);
+      expect(order).toEqual(['fresh', 'old']);
+    });
+
+    it('skips abandoned waiters', async () => {
+      const mutex = new Mutex();
+      const release = await mutex.obtain();
+      const order: string[] = [];
+      const controller = new AbortController();
+      const abandoned = queueUp(mutex, order, 'abandoned', 10, controller.signal);
+      const waiting = queueUp(mutex, order, 'waiting');
+      controller.abort(new Error('stop'));
+      await expect(abandoned).rejects.toThrow('stop');
+      expect(mutex.waitingCountByPriority).toEqual(new Map([[0, 1]]));
+      release();
+      await waiting;
+      expect(order).toEqual(['waiting']);
+      expect(mutex.isLocked).toBe(false);
+    });
+
+    it('keeps arrival order in a long queue with abandoned waiters', async () => {
+      const mutex = new Mutex();
+      const release = await mutex.obtain();
+      const order: string[] = [];
+      const controller = new AbortController();
+      const names = Array.from({ length: 5000 }, (_, i) => `${i}`);
+      const waiters = names.map(name => {
+        const signal = Number(name) % 3 === 1 ? controller.signal : undefined;
+        return queueUp(mutex, order, name, 0, signal).catch(() => undefined);
+      });
+      controller.abort();
+      await Promise.resolve();
+      release();
+      await Promise.all(waiters);
+      expect(order).toEqual(names.filter(name => Number(name) % 3 !== 1));
+      expect(mutex.waitingCount).toBe(0);
+      expect(mutex.waitingCountByPriority.size).toBe(0);
+      expect(mutex.isLocked).toBe(false);
+    });
+  });
+
+  describe('leases', () => {
+    it('releases the lock and aborts the signal on expiry', async () => {
+      const mutex = new Mutex({ name: 'lease' });
+      const lease = await mutex.lease(20);
+      const waiting = mutex.obtain();
+      expect(lease.signal.aborted).toBe(false);
+
+      const release = await waiting;
+      expect(lease.expired).toBe(true);
+      expect(lease.signal.reason).toBeInstanceOf(LeaseExpiredError);
+      expect(lease.signal.reason.message).toBe('Lease on lock "lease" expired after 20ms');
+      // The late release is detectable and leaves the new holder alone
+      expect(lease.release()).toBe(false);
+      expect(mutex.isLocked).toBe(true);
+      release();
+    });
+
+    it('keeps the lock while renewed', async () => {
+      const mutex = new Mutex();
+      const lease = await mutex.lease(20);
+      for (let i = 0; i < 4; ++i) {
+        await timeout(10);
+        lease.renew(20);
+      }
+      expect(lease.expired).toBe(false);
+      expect(mutex.isLocked).toBe(true);
+      expect(lease.release()).toBe(true);
+      expect(lease.release()).toBe(false);
+      expect(mutex.isLocked).toBe(false);
+      expect(() => lease.renew(20)).toThrow(LockReleasedError);
+      expect(lease.signal.aborted).toBe(false);
+    });
+
+    it('refuses to renew an expired lease', async () => {
+      const mutex = new Mutex();
+      const lease = await mutex.lease(5);
+      await timeout(20);
+      expect(() => lease.renew(1000)).toThrow(LeaseExpiredError);
+      expect(mutex.isLocked).toBe(false);
+    });
+
+    it('supports using syntax, timeouts and strict mode', async () => {
+      const mutex = new Mutex({ strictRelease: true });
+      {
+        using _ = await mutex.lease(1000);
+        await expect(mutex.lease(1000, { timeoutMs: 10 })).rejects.toThrow(LockTimeoutError);
+      }
+      expect(mutex.isLocked).toBe(false);
+
+      const expiring = await mutex.lease(5);
+      await timeout(20);
+      expect(() => expiring.release()).toThrow(LeaseExpiredError);
+      const released = await mutex.lease(1000);
+      released.release();
+      expect(() => released.release()).toThrow(LockReleasedError);
+    });
+  });
 });
 
 describe('mutex-rw', { timeout: 10000 }, () => {
@@ -611,4 +968,509 @@ describe('mutex-rw', { timeout: 10000 }, () => {
       read2();
     });
   });
+
+  describe('cancellation', () => {
+    it('rejects an aborted reader and keeps counts accurate', async () => {
+      const mutex = new MutexRW();
+      const writeRelease = await mutex.obtainWrite();
+      const controller = new AbortController();
+
+      const readPromise = mutex.obtainRead({ signal: controller.signal });
+      await Promise.resolve();
+      expect(mutex.readWaitingCount).toBe(1);
+
+      const reason = new Error('gone');
+      controller.abort(reason);
+      await expect(readPromise).rejects.toBe(reason);
+      expect(mutex.readWaitingCount).toBe(0);
+      expect(mutex.activeReadCount).toBe(0);
+
+      writeRelease();
+    });
+
+    it('rejects an aborted writer waiting for readers', async () => {
+      const mutex = new MutexRW();
+      const readRelease = await mutex.obtainRead();
+      const controller = new AbortController();
+
+      const writePromise = mutex.obtainWrite({ signal: controller.signal });
+      const readPromise = mutex.obtainRead();
+      await Promise.resolve();
+      expect(mutex.writeWaitingCount).toBe(1);
+      expect(mutex.readWaitingCount).toBe(1);
+
+      controller.abort();
+      await expect(writePromise).rejects.toBeDefined();
+      expect(mutex.writeWaitingCount).toBe(0);
+
+      // The queued reader no longer waits for the abandoned writer
+      const readRelease2 = await readPromise;
+      expect(mutex.activeReadCount).toBe(2);
+      expect(mutex.isWriteLocked).toBe(false);
+
+      readRelease();
+      readRelease2();
+    });
+
+    it('does not block later writers after an aborted writer', async () => {
+      const mutex = new MutexRW();
+      const writeRelease1 = await mutex.obtainWrite();
+      const controller = new AbortController();
+
+      const aborted = mutex.obtainWrite({ signal: controller.signal });
+      const writePromise3 = mutex.obtainWrite();
+      await Promise.resolve();
+      expect(mutex.writeWaitingCount).toBe(2);
+
+      controller.abort();
+      await expect(aborted).rejects.toBeDefined();
+      expect(mutex.writeWaitingCount).toBe(1);
+
+      writeRelease1();
+      const writeRelease3 = await writePromise3;
+      expect(mutex.isWriteLocked).toBe(true);
+      writeRelease3();
+    });
+
+    it('supports signals with using syntax', async () => {
+      const mutex = new MutexRW();
+      const controller = new AbortController();
+      {
+        using _ = await mutex.lockWrite({ signal: controller.signal });
+        expect(mutex.isWriteLocked).toBe(true);
+      }
+      {
+        using _ = await mutex.lockRead({ signal: controller.signal });
+        expect(mutex.isReadLocked).toBe(true);
+      }
+    });
+  });
+
+  describe('timeouts', () => {
+    it('rejects a reader with LockTimeoutError', async () => {
+      const mutex = new MutexRW({ name: 'store' });
+      const writeRelease = await mutex.obtainWrite();
+
+      await expect(mutex.obtainRead({ timeoutMs: 10 })).rejects.toMatchObject({
+        name: 'LockTimeoutError',
+        lockName: 'store',
+      });
+      expect(mutex.readWaitingCount).toBe(0);
+
+      writeRelease();
+    });
+
+    it('rejects a writer with LockTimeoutError and lets others through', async () => {
+      const mutex = new MutexRW();
+      const readRelease = await mutex.obtainRead();
+
+      await expect(mutex.lockWrite({ timeoutMs: 10 })).rejects.toBeInstanceOf(LockTimeoutError);
+      expect(mutex.writeWaitingCount).toBe(0);
+
+      const readRelease2 = await mutex.obtainRead();
+      readRelease();
+      readRelease2();
+      const writeRelease = await mutex.obtainWrite({ timeoutMs: 100 });
+      expect(mutex.isWriteLocked).toBe(true);
+      writeRelease();
+    });
+  });
+
+  describe('tryObtainRead and tryObtainWrite', () => {
+    it('grants concurrent reads without waiting', () => {
+      const mutex = new MutexRW();
+      const release1 = mutex.tryObtainRead();
+      const release2 = mutex.tryObtainRead();
+      expect(mutex.activeReadCount).toBe(2);
+      expect(mutex.tryObtainWrite()).toBeNull();
+      release1!();
+      release2!();
+    });
+
+    it('skips work while another task is writing', async () => {
+      const mutex = new MutexRW();
+      const writeRelease = mutex.tryObtainWrite();
+      expect(writeRelease).not.toBeNull();
+      expect(mutex.isWriteLocked).toBe(true);
+      expect(mutex.tryObtainWrite()).toBeNull();
+      expect(mutex.tryObtainRead()).toBeNull();
+
+      const readPromise = mutex.obtainRead();
+      await Promise.resolve();
+      expect(mutex.readWaitingCount).toBe(1);
+
+      writeRelease!();
+      const readRelease = await readPromise;
+      expect(mutex.activeReadCount).toBe(1);
+      readRelease();
+    });
+
+    it('does not let a reader jump ahead of a queued writer', async () => {
+      const mutex = new MutexRW();
+      const readRelease = await mutex.obtainRead();
+      const writePromise = mutex.obtainWrite();
+      await Promise.resolve();
+
+      expect(mutex.tryObtainRead()).toBeNull();
+
+      readRelease();
+      const writeRelease = await writePromise;
+      writeRelease();
+      await Promise.resolve();
+      const release = mutex.tryObtainWrite();
+      expect(release).not.toBeNull();
+      release!();
+    });
+  });
+
+  describe('repeated release', () => {
+    it('ignores repeated releases by default', async () => {
+      const mutex = new MutexRW();
+      const releaseRead = await mutex.obtainRead();
+      const releaseOther = await mutex.obtainRead();
+      releaseRead();
+      releaseRead();
+      expect(mutex.activeReadCount).toBe(1);
+      releaseOther();
+    });
+
+    it('throws LockReleasedError in strict mode', async () => {
+      const mutex = new MutexRW({ strictRelease: true });
+      const releaseRead = await mutex.obtainRead();
+      releaseRead();
+      expect(() => releaseRead()).toThrow(LockReleasedError);
+
+      const releaseWrite = mutex.tryObtainWrite()!;
+      releaseWrite();
+      expect(() => releaseWrite()).toThrow(LockReleasedError);
+
+      const lock = await mutex.lockWrite();
+      lock.downgrade();
+      lock[Symbol.dispose]();
+      expect(() => lock[Symbol.dispose]()).toThrow(LockReleasedError);
+
+      const handle = await mutex.obtainUpgradableRead();
+      handle.release();
+      expect(() => handle.release()).toThrow(LockReleasedError);
+      expect(mutex.activeReadCount).toBe(0);
+      expect(mutex.isWriteLocked).toBe(false);
+    });
+  });
+
+  describe('fairness policies', () => {
+    const policies: MutexRWPolicy[] = ['write-preferring', 'read-preferring', 'fair'];
+
+    for (const policy of policies) {
+      it.concurrent(`never lets accessors interfere with ${policy} policy`, async () => {
+        const mutex = new MutexRW({ policy });
+        let cntROAccess = 0;
+        let cntRWAccess = 0;
+        const fRO = async () => {
+          using _ = await mutex.lockRead();
+          ++cntROAccess;
+          expect(cntRWAccess).toBe(0);
+          await timeout(Math.random() * 10);
+          --cntROAccess;
+        };
+        const fRW = async () => {
+          using _ = await mutex.lockWrite();
+          expect(++cntRWAccess).toBe(1);
+          expect(cntROAccess).toBe(0);
+          await timeout(Math.random() * 10);
+          --cntRWAccess;
+        };
+        const threads: Promise<unknown>[] = [];
+        for (let i = 0; i < 100; ++i) {
+          threads.push(Math.random() > 0.5 ? fRO() : fRW());
+        }
+        await Promise.all(threads);
+        expect(mutex.readWaitingCount).toBe(0);
+        expect(mutex.writeWaitingCount).toBe(0);
+        expect(mutex.activeReadCount).toBe(0);
+        expect(mutex.isWriteLocked).toBe(false);
+      });
+    }
+
+    it('defaults to write-preferring', () => {
+      expect(new MutexRW().policy).toBe('write-preferring');
+    });
+
+    it('write-preferring: a queued writer is not starved by a stream of readers', async () => {
+      const mutex = new MutexRW({ policy: 'write-preferring' });
+      const releaseRead = await mutex.obtainRead();
+      const writePromise = mutex.obtainWrite();
+      const readPromises = Array.from({ length: 5 }, () => mutex.obtainRead());
+      await Promise.resolve();
+      expect(mutex.readWaitingCount).toBe(5);
+      expect(mutex.writeWaitingCount).toBe(1);
+
+      releaseRead();
+      const writeRelease = await writePromise;
+      expect(mutex.isWriteLocked).toBe(true);
+      expect(mutex.readWaitingCount).toBe(5);
+      expect(mutex.writeWaitingCount).toBe(0);
+
+      writeRelease();
+      const readReleases = await Promise.all(readPromises);
+      expect(mutex.readWaitingCount).toBe(0);
+      expect(mutex.activeReadCount).toBe(5);
+      readReleases.forEach(release => release());
+    });
+
+    it('read-preferring: readers join while a writer waits', async () => {
+      const mutex = new MutexRW({ policy: 'read-preferring' });
+      const releaseRead1 = await mutex.obtainRead();
+      const writePromise = mutex.obtainWrite();
+      await Promise.resolve();
+      expect(mutex.writeWaitingCount).toBe(1);
+
+      const releaseRead2 = await mutex.obtainRead();
+      expect(mutex.activeReadCount).toBe(2);
+      expect(mutex.readWaitingCount).toBe(0);
+      const releaseRead3 = mutex.tryObtainRead();
+      expect(releaseRead3).not.toBeNull();
+
+      releaseRead1();
+      releaseRead2();
+      releaseRead3!();
+      const writeRelease = await writePromise;
+      expect(mutex.writeWaitingCount).toBe(0);
+      expect(mutex.activeReadCount).toBe(0);
+      writeRelease();
+    });
+
+    it('read-preferring: queued readers are not starved by a stream of writers', async () => {
+      const mutex = new MutexRW({ policy: 'read-preferring' });
+      const writeRelease1 = await mutex.obtainWrite();
+      const order: string[] = [];
+      const write2 = mutex.obtainWrite().then(release => (order.push('write2'), release));
+      const read = mutex.obtainRead().then(release => (order.push('read'), release));
+      const write3 = mutex.obtainWrite().then(release => (order.push('write3'), release));
+      await Promise.resolve();
+      expect(mutex.readWaitingCount).toBe(1);
+      expect(mutex.writeWaitingCount).toBe(2);
+
+      writeRelease1();
+      (await read)();
+      (await write2)();
+      (await write3)();
+      expect(order).toEqual(['read', 'write2', 'write3']);
+    });
+
+    it('fair: grants strictly in arrival order, batching consecutive readers', async () => {
+      const mutex = new MutexRW({ policy: 'fair' });
+      const writeRelease = await mutex.obtainWrite();
+      const order: string[] = [];
+      const track = (name: string, promise: Promise<() => void>) =>
+        promise.then(release => (order.push(name), release));
+
+      const read1 = track('read1', mutex.obtainRead());
+      const read2 = track('read2', mutex.obtainRead());
+      const write = track('write', mutex.obtainWrite());
+      const read3 = track('read3', mutex.obtainRead());
+      await Promise.resolve();
+      expect(mutex.readWaitingCount).toBe(3);
+      expect(mutex.writeWaitingCount).toBe(1);
+
+      writeRelease();
+      const releaseRead1 = await read1;
+      const releaseRead2 = await read2;
+      expect(mutex.activeReadCount).toBe(2);
+      // read3 arrived after the writer, so it does not join the first batch
+      expect(mutex.readWaitingCount).toBe(1);
+      expect(mutex.writeWaitingCount).toBe(1);
+      expect(mutex.tryObtainRead()).toBeNull();
+
+      releaseRead1();
+      releaseRead2();
+      (await write)();
+      (await read3)();
+      expect(order).toEqual(['read1', 'read2', 'write', 'read3']);
+      expect(mutex.readWaitingCount).toBe(0);
+      expect(mutex.writeWaitingCount).toBe(0);
+    });
+
+    it('fair: an aborted writer lets the readers behind it in', async () => {
+      const mutex = new MutexRW({ policy: 'fair' });
+      const releaseRead1 = await mutex.obtainRead();
+      const controller = new AbortController();
+      const write = mutex.obtainWrite({ signal: controller.signal });
+      const read2 = mutex.obtainRead();
+      await Promise.resolve();
+      expect(mutex.readWaitingCount).toBe(1);
+
+      controller.abort();
+      await expect(write).rejects.toBeDefined();
+      const releaseRead2 = await read2;
+      expect(mutex.activeReadCount).toBe(2);
+      expect(mutex.writeWaitingCount).toBe(0);
+
+      releaseRead1();
+      releaseRead2();
+    });
+  });
+
+  describe('upgradable reads', () => {
+    it('coexists with plain readers but admits one upgradable reader at a time', async () => {
+      const mutex = new MutexRW();
+      const releaseRead = await mutex.obtainRead();
+      const upgradable1 = await mutex.obtainUpgradableRead();
+      expect(mutex.activeReadCount).toBe(2);
+
+      let acquired = false;
+      const upgradable2 = mutex.obtainUpgradableRead().then(handle => ((acquired = true), handle));
+      await timeout(5);
+      expect(acquired).toBe(false);
+      expect(mutex.readWaitingCount).toBe(1);
+
+      upgradable1.release();
+      (await upgradable2).release();
+      releaseRead();
+      expect(mutex.activeReadCount).toBe(0);
+    });
+
+    it('upgrades once the other readers are gone, ahead of queued writers', async () => {
+      const mutex = new MutexRW();
+      const releaseRead = await mutex.obtainRead();
+      const handle = await mutex.obtainUpgradableRead();
+      const order: string[] = [];
+      const write = mutex.obtainWrite().then(release => (order.push('write'), release));
+      await Promise.resolve();
+
+      const upgrade = handle.upgrade().then(() => order.push('upgrade'));
+      // New readers are held back while the upgrade waits
+      const read2 = mutex.obtainRead().then(release => (order.push('read2'), release));
+      await timeout(5);
+      expect(order).toEqual([]);
+      expect(handle.isUpgraded).toBe(false);
+
+      releaseRead();
+      await upgrade;
+      expect(handle.isUpgraded).toBe(true);
+      expect(mutex.isWriteLocked).toBe(true);
+      expect(mutex.activeReadCount).toBe(0);
+
+      handle.release();
+      (await write)();
+      (await read2)();
+      expect(order).toEqual(['upgrade', 'write', 'read2']);
+      expect(mutex.isWriteLocked).toBe(false);
+      expect(mutex.activeReadCount).toBe(0);
+    });
+
+    it('never lets a writer change the data between reading and upgrading', async () => {
+      const mutex = new MutexRW();
+      let value = 0;
+      const writer = async () => {
+        using _ = await mutex.lockWrite();
+        const read = value;
+        await timeout(Math.random() * 5);
+        value = read + 1;
+      };
+      const upgrader = async () => {
+        using handle = await mutex.obtainUpgradableRead();
+        const read = value;
+        await timeout(Math.random() * 5);
+        await handle.upgrade();
+        expect(value).toBe(read);
+        value = read + 1;
+      };
+      const threads: Promise<unknown>[] = [];
+      for (let i = 0; i < 50; ++i) {
+        threads.push(Math.random() > 0.5 ? writer() : upgrader());
+      }
+      await Promise.all(threads);
+      expect(value).toBe(50);
+    });
+
+    it('keeps the read lock when an upgrade times out', async () => {
+      const mutex = new MutexRW();
+      const releaseRead = await mutex.obtainRead();
+      const handle = await mutex.obtainUpgradableRead();
+
+      await expect(handle.upgrade({ timeoutMs: 10 })).rejects.toBeInstanceOf(LockTimeoutError);
+      expect(handle.isUpgraded).toBe(false);
+      expect(mutex.activeReadCount).toBe(2);
+
+      // Readers are no longer held back
+      const releaseRead2 = await mutex.obtainRead();
+      releaseRead();
+      releaseRead2();
+      await handle.upgrade();
+      expect(mutex.isWriteLocked).toBe(true);
+      handle.release();
+      expect(mutex.isWriteLocked).toBe(false);
+    });
+
+    it('downgrades an upgraded handle back to an upgradable read', async () => {
+      const mutex = new MutexRW();
+      const handle = await mutex.obtainUpgradableRead();
+      await handle.upgrade();
+      expect(mutex.tryObtainRead()).toBeNull();
+
+      handle.downgrade();
+      expect(handle.isUpgraded).toBe(false);
+      expect(mutex.isWriteLocked).toBe(false);
+      const releaseRead = mutex.tryObtainRead();
+      expect(releaseRead).not.toBeNull();
+      releaseRead!();
+
+      handle[Symbol.dispose]();
+      handle.release();
+      expect(mutex.activeReadCount).toBe(0);
+      await expect(handle.upgrade()).rejects.toThrow();
+      expect(() => handle.downgrade()).toThrow();
+    });
+
+    it('rejects a pending upgrade when the handle is released', async () => {
+      const mutex = new MutexRW();
+      const releaseRead = await mutex.obtainRead();
+      const handle = await mutex.obtainUpgradableRead();
+      const upgrade = handle.upgrade();
+      handle.release();
+      await expect(upgrade).rejects.toThrow();
+      expect(mutex.activeReadCount).toBe(1);
+      releaseRead();
+      expect(mutex.tryObtainWrite()).not.toBeNull();
+    });
+  });
+
+  describe('write lock downgrade', () => {
+    it('turns a write lock into a read lock without letting a queued writer in', async () => {
+      const mutex = new MutexRW();
+      const lock = await mutex.lockWrite();
+      const order: string[] = [];
+      const write = mutex.obtainWrite().then(release => (order.push('write'), release));
+      await Promise.resolve();
+
+      lock.downgrade();
+      expect(mutex.isWriteLocked).toBe(false);
+      expect(mutex.activeReadCount).toBe(1);
+      await timeout(5);
+      expect(order).toEqual([]);
+
+      lock[Symbol.dispose]();
+      (await write)();
+      expect(order).toEqual(['write']);
+      expect(mutex.activeReadCount).toBe(0);
+    });
+
+    it('lets readers join after a downgrade when no writer is queued', async () => {
+      const mutex = new MutexRW();
+      const lock = await mutex.lockWrite();
+      const read = mutex.obtainRead();
+      await Promise.resolve();
+      expect(mutex.readWaitingCount).toBe(1);
+
+      lock.downgrade();
+      const releaseRead = await read;
+      expect(mutex.activeReadCount).toBe(2);
+
+      releaseRead();
+      lock[Symbol.dispose]();
+      lock[Symbol.dispose]();
+      expect(mutex.activeReadCount).toBe(0);
+      expect(() => lock.downgrade()).toThrow();
+    });
+  });
 });
@@ -1,7 +1,229 @@
+import { cancellation, race } from './cancellation';
+import { type LockDiagnosticsOptions, runInCallChain } from './diagnostics';
+import { LeaseExpiredError, LockReleasedError, LockTimeoutError } from './errors';
+import { type AcquisitionProbe, LockInstrumentation } from './instrumentation';
+import type { LockListener } from './metrics';
+
 function releaseStub() {
   return;
 }
 
+/**
+ * Options accepted by the lock acquisition methods of {@link Mutex} and {@link MutexRW}.
+ */
+export interface AcquireOptions {
+  /** Abandons the wait when aborted; the acquisition rejects with the signal's reason. */
+  signal?: AbortSignal;
+  /** Abandons the wait after this many milliseconds; the acquisition rejects with {@link LockTimeoutError}. */
+  timeoutMs?: number;
+  /** Describes the acquisition in reports of a lock created with the `diagnostics` option. */
+  label?: string;
+}
+
+/**
+ * Options accepted by the {@link Mutex} constructor.
+ */
+export interface MutexOptions {
+  /** A name identifying the lock in errors. Defaults to `'Mutex'`. */
+  name?: string;
+  /**
+   * Turns on the debug mode that reports long waits, long holds and deadlocks between
+   * instrumented locks. Pass true for the defaults, or thresholds and a report handler.
+   * Records a stack trace per acquisition, so keep it off in hot paths in production.
+   *
+   * Deadlocks are found between async call chains, told apart with `AsyncLocalStorage` where
+   * the runtime provides it. A call chain is the callback of {@link Mutex.runExclusive},
+   * {@link MutexRW.runRead} or {@link MutexRW.runWrite}, including tasks it starts. Plain
+   * `obtain()` and `lock()` calls outside such a callback are not linked to each other: a
+   * deadlock between them is only reported as long waits.
+   */
+  diagnostics?: boolean | LockDiagnosticsOptions;
+  /**
+   * Makes a repeated call of a release function throw {@link LockReleasedError}, exposing
+   * double-release bugs. By default repeated calls do nothing.
+   */
+  strictRelease?: boolean;
+  /**
+   * Raises the priority of a waiter by one for every this many milliseconds it has waited, so
+   * low-priority waiters are not starved by a steady stream of higher ones. Defaults to 1000;
+   * `Infinity` turns aging off.
+   */
+  agingMs?: number;
+}
+
+/**
+ * The order in which {@link MutexRW} grants queued readers and writers.
+ *
+ * - `'write-preferring'`: queued writers go before any reader that is not yet reading.
+ *   Writers never starve, but a steady stream of writers can hold readers back.
+ * - `'read-preferring'`: readers join as long as no writer holds the lock.
+ *   Readers never starve, but a steady stream of readers can hold writers back.
+ * - `'fair'`: strict arrival order; consecutive readers still share the lock. Nobody starves.
+ */
+export type MutexRWPolicy = 'write-preferring' | 'read-preferring' | 'fair';
+
+/**
+ * Options accepted by the {@link MutexRW} constructor.
+ */
+export interface MutexRWOptions {
+  /** A name identifying the lock in errors. Defaults to `'MutexRW'`. */
+  name?: string;
+  /** The order in which readers and writers are granted the lock. Defaults to `'write-preferring'`. */
+  policy?: MutexRWPolicy;
+  /** Turns on the debug mode, see {@link MutexOptions.diagnostics}. */
+  diagnostics?: boolean | LockDiagnosticsOptions;
+  /** Makes repeated releases throw, see {@link MutexOptions.strictRelease}. */
+  strictRelease?: boolean;
+}
+
+/**
+ * A write lock handle returned by {@link MutexRW.lockWrite}.
+ */
+export interface WriteLockHandle {
+  /**
+   * Turns the write lock into a read lock in place. No queued writer can get in between,
+   * while readers allowed by the fairness policy may join. Disposing the handle afterwards
+   * releases the read lock.
+   *
+   * @throws {Error} If the handle no longer holds the write lock.
+   */
+  downgrade(): void;
+  /**
+   * Releases whatever lock the handle currently holds.
+   *
+   * @throws {LockReleasedError} If called again on a lock created with `strictRelease`.
+   */
+  [Symbol.dispose](): void;
+}
+
+/**
+ * An upgradable read lock handle returned by {@link MutexRW.obtainUpgradableRead}.
+ */
+export interface UpgradableReadHandle {
+  /** Whether the handle currently holds exclusive (write) access. */
+  readonly isUpgraded: boolean;
+  /**
+   * Waits until every other reader is gone and turns the handle into an exclusive lock.
+   * New readers are held back meanwhile, and no writer can get in between, so data read
+   * under the upgradable lock is still current once this resolves. No-op if already upgraded.
+   * On abort or timeout the handle keeps its read lock.
+   *
+   * @param options - Options such as an `AbortSignal` or a timeout to stop waiting.
+   * @throws {LockTimeoutError} If `timeoutMs` elapses before the upgrade is granted.
+   * @throws {Error} If the handle has been released or an upgrade is already in progress.
+   */
+  upgrade(options?: AcquireOptions): Promise<void>;
+  /**
+   * Turns an upgraded handle back into an upgradable read lock, letting readers in again.
+   *
+   * @throws {Error} If the handle is not upgraded.
+   */
+  downgrade(): void;
+  /**
+   * Releases whatever lock the handle currently holds. Does nothing when called again,
+   * unless the lock was created with `strictRelease`.
+   *
+   * @throws {LockReleasedError} If called again on a lock created with `strictRelease`.
+   */
+  release(): void;
+  /** Same as {@link UpgradableReadHandle.release}, for 'using' syntax. */
+  [Symbol.dispose](): void;
+}
+
+/**
+ * A lock held for a limited time, returned by {@link Mutex.lease}.
+ */
+export interface LeaseHandle {
+  /**
+   * Aborts with a {@link LeaseExpiredError} once the lease expires and the lock is released.
+   * Pass it to the operations done under the lock so they stop with it.
+   */
+  readonly signal: AbortSignal;
+  /** Whether the lease ran out before being released. */
+  readonly expired: boolean;
+  /**
+   * Extends the lease to the given duration from now.
+   *
+   * @param durationMs - The new duration of the lease, in milliseconds.
+   * @throws {LeaseExpiredError} If the lease already expired.
+   * @throws {LockReleasedError} If the lease was already released.
+   */
+  renew(durationMs: number): void;
+  /**
+   * Releases the lock, unless the lease already expired.
+   *
+   * @returns true if this call released the lock, false if the lease had expired or was released.
+   * @throws {LeaseExpiredError} If the lease expired, on a lock created with `strictRelease`.
+   * @throws {LockReleasedError} If called again on a lock created with `strictRelease`.
+   */
+  release(): boolean;
+  /** Same as {@link LeaseHandle.release}, for 'using' syntax. */
+  [Symbol.dispose](): void;
+}
+
+interface RWWaiter {
+  seq: number;
+  granted: boolean;
+  resolve: () => void;
+}
+
+interface PendingUpgrade {
+  granted: boolean;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+type RWKind = 'read' | 'upgradable' | 'write';
+
+/**
+ * Options accepted by {@link Mutex.obtain} and {@link Mutex.lock}.
+ */
+export interface MutexAcquireOptions extends AcquireOptions {
+  /** If true, skips acquiring the lock and returns a no-op release. */
+  bypass?: boolean;
+  /**
+   * Waiters with a higher priority are granted the lock first; equal priorities are served in
+   * arrival order. Defaults to 0. See {@link MutexOptions.agingMs}.
+   */
+  priority?: number;
+}
+
+interface MutexWaiter {
+  readonly priority: number;
+  readonly queuedAt: number;
+  // Arrival order, which breaks ties between equal effective priorities
+  readonly seq: number;
+  granted: boolean;
+  abandoned: boolean;
+  resolve: () => void;
+}
+
+/**
+ * The waiters of one priority, in arrival order. Waiters that leave are dropped from the front,
+ * so abandoned ones are only marked and skipped once they get there.
+ */
+interface PriorityQueue {
+  readonly waiters: MutexWaiter[];
+  head: number;
+  // Waiters that have not resumed yet, including granted ones no longer in `waiters`
+  count: number;
+}
+
+function frontOf(queue: PriorityQueue): MutexWaiter | undefined {
+  while (queue.head < queue.waiters.length && queue.waiters[queue.head]!.abandoned) ++queue.head;
+  return queue.waiters[queue.head];
+}
+
+function dequeue(queue: PriorityQueue) {
+  const { waiters } = queue;
+  ++queue.head;
+  // Drop the waiters that left once they make up most of the array
+  if (queue.head === waiters.length || (queue.head >= 1024 && queue.head * 2 >= waiters.length)) {
+    waiters.splice(0, queue.head);
+    queue.head = 0;
+  }
+}
+
 /**
  * A simple mutual exclusion lock for asynchronous code.
  * Mutex ensures that only one task can access a critical section at a time, preventing race conditions
@@ -23,10 +245,38 @@ function releaseStub() {
  * ```
  */
 export class Mutex {
-  private m_lastPromise: Promise<void> = Promise.resolve();
-
+  // Queued waiters by priority
+  private readonly m_queues = new Map<number, PriorityQueue>();
+  // Everyone who called obtain and has not resumed yet, including granted waiters about to resume
   private m_waitingCount = 0;
+  private m_nextSeq = 0;
+  // Held, or granted to a waiter that has not resumed yet
+  private m_isReserved = false;
   private m_isLocked = false;
+  private readonly m_agingMs: number;
+  private readonly m_instrumentation: LockInstrumentation;
+
+  /**
+   * The name of the lock, as reported by {@link LockTimeoutError}.
+   */
+  public readonly name: string;
+
+  /**
+   * Whether a repeated release throws {@link LockReleasedError} instead of doing nothing.
+   */
+  public readonly strictRelease: boolean;
+
+  /**
+   * Initializes a new unlocked Mutex.
+   *
+   * @param options - Optional settings, such as a name used in error messages.
+   */
+  public constructor(options: MutexOptions = {}) {
+    this.name = options.name ?? 'Mutex';
+    this.strictRelease = options.strictRelease ?? false;
+    this.m_agingMs = options.agingMs ?? 1000;
+    this.m_instrumentation = new LockInstrumentation(this.name, options.diagnostics);
+  }
 
   /**
    * The number of tasks currently waiting to acquire the lock.
@@ -53,6 +303,21 @@ export class Mutex {
     return this.m_waitingCount;
   }
 
+  /**
+   * The number of waiting tasks per requested priority, highest priority first.
+   * Priorities without waiters are left out.
+   *
+   * @returns A map from priority to the count of tasks waiting with it.
+   * @example
+   * ```typescript
+   * console.log(mutex.waitingCountByPriority); // Map { 10 => 1, 0 => 3 }
+   * ```
+   */
+  public get waitingCountByPriority(): ReadonlyMap<number, number> {
+    const priorities = [...this.m_queues.keys()].sort((a, b) => b - a);
+    return new Map(priorities.map(priority => [priority, this.m_queues.get(priority)!.count]));
+  }
+
   /**
    * Whether the mutex is currently locked (a task is holding the lock).
    * Returns true if any task is currently holding the lock, regardless of whether others are waiting.
@@ -76,37 +341,169 @@ export class Mutex {
     return this.m_isLocked;
   }
 
+  /**
+   * Starts calling the listener for every acquisition event of the lock: requested, acquired,
+   * abandoned and released, with wait and hold durations. Feed it to {@link LockMetrics}
+   * for aggregated counts and histograms.
+   *
+   * @param listener - The function receiving the events.
+   * @returns A function that stops the listener.
+   * @example
+   * ```typescript
+   * const stop = mutex.observe(event => {
+   *   if (event.type === 'released') console.log(`held for ${event.holdMs}ms`);
+   * });
+   * ```
+   */
+  public observe(listener: LockListener) {
+    return this.m_instrumentation.observe(listener);
+  }
+
   /**
    * Acquires the lock, waiting if necessary, and returns a release function.
    * If bypass is true, it returns a no-op release without waiting, allowing conditional skipping.
-   * Always release in a finally block to avoid deadlocks.
+   * Always release in a finally block to avoid deadlocks. Calling the release function again
+   * does nothing, or throws {@link LockReleasedError} if the mutex was created with `strictRelease`.
+   *
+   * Pass an options object to give up waiting through an `AbortSignal` or after `timeoutMs`:
+   * an abandoned waiter rejects and leaves the queue, so tasks behind it are not held up.
    *
-   * @param bypass - If true, skips acquiring the lock and returns a no-op release. Defaults to false.
+   * @param options - Either the bypass flag, or acquisition options. Defaults to false.
    * @returns A promise resolving to a function that releases the lock.
+   * @throws {LockTimeoutError} If `timeoutMs` elapses before the lock is acquired.
+   * @example
+   * ```typescript
+   * const release = await mutex.obtain({ signal: request.signal, timeoutMs: 5000 });
+   * ```
    */
-  public async obtain(bypass = false): Promise<() => void> {
-    let release = releaseStub;
-    if (bypass) return release;
-    const lastPromise = this.m_lastPromise;
-    this.m_lastPromise = new Promise<void>(resolve => (release = resolve));
+  public async obtain(options: boolean | MutexAcquireOptions = false): Promise<() => void> {
+    const {
+      bypass = false,
+      signal,
+      timeoutMs,
+      label,
+      priority = 0,
+    } = typeof options === 'boolean' ? { bypass: options } : options;
+    if (bypass) return releaseStub;
+    signal?.throwIfAborted();
+    const probe = this.m_instrumentation.begin('exclusive', label);
+    let waiter!: MutexWaiter;
+    const granted = new Promise<void>(
+      resolve =>
+        (waiter = {
+          priority,
+          queuedAt: performance.now(),
+          seq: this.m_nextSeq++,
+          granted: false,
+          abandoned: false,
+          resolve,
+        }),
+    );
+    let queue = this.m_queues.get(priority);
+    if (queue === undefined) this.m_queues.set(priority, (queue = { waiters: [], head: 0, count: 0 }));
+    ++queue.count;
     ++this.m_waitingCount;
-    await lastPromise;
-    --this.m_waitingCount;
+    if (this.m_isReserved) {
+      queue.waiters.push(waiter);
+      probe?.waiting();
+    } else {
+      this.m_isReserved = true;
+      waiter.granted = true;
+      waiter.resolve();
+    }
+    const cancel = cancellation(signal, timeoutMs, ms => new LockTimeoutError(this.name, ms));
+    try {
+      await race(granted, cancel);
+    } catch (error) {
+      // Granted while the rejection was in flight: hand the lock on
+      if (waiter.granted) this.handOver();
+      else waiter.abandoned = true;
+      probe?.abandoned();
+      throw error;
+    } finally {
+      --this.m_waitingCount;
+      if (--queue.count === 0) this.m_queues.delete(priority);
+      cancel?.dispose();
+    }
+    return this.acquired(probe);
+  }
+
+  /**
+   * Acquires the lock only if it is free right now, without waiting.
+   * Returns null instead of queueing when the lock is held or other tasks are already waiting,
+   * which lets callers skip optional work rather than pile up behind it.
+   *
+   * @returns A function that releases the lock, or null if the lock is not available.
+   * @example
+   * ```typescript
+   * const release = mutex.tryObtain();
+   * if (release === null) return; // someone else is already on it
+   * try {
+   *   await refresh();
+   * } finally {
+   *   release();
+   * }
+   * ```
+   */
+  public tryObtain(): (() => void) | null {
+    if (this.m_isReserved) return null;
+    this.m_isReserved = true;
+    return this.acquired(this.m_instrumentation.begin('exclusive', undefined));
+  }
+
+  private acquired(probe: AcquisitionProbe | null) {
     this.m_isLocked = true;
-    const originalRelease = release;
-    release = () => {
+    let released = false;
+    const release = () => {
+      if (released) return this.repeatedRelease();
+      released = true;
       this.m_isLocked = false;
-      originalRelease();
+      probe?.released();
+      this.handOver();
     };
+    probe?.acquired(release);
     return release;
   }
 
+  /**
+   * Passes the lock on to the queued waiter with the highest priority, raised by aging, or frees
+   * it if nobody is queued. The lock stays reserved in between, so no newcomer can cut in.
+   */
+  private handOver() {
+    const now = performance.now();
+    const effective = (waiter: MutexWaiter) => waiter.priority + (now - waiter.queuedAt) / this.m_agingMs;
+    let next: MutexWaiter | undefined;
+    let nextQueue: PriorityQueue | undefined;
+    // The front of a queue has waited longest for its priority, so only fronts are compared
+    for (const queue of this.m_queues.values()) {
+      const waiter = frontOf(queue);
+      if (waiter === undefined) continue;
+      const diff = next === undefined ? 1 : effective(waiter) - effective(next);
+      // Among equals the earlier arrival wins
+      if (diff > 0 || (diff === 0 && waiter.seq < next!.seq)) {
+        next = waiter;
+        nextQueue = queue;
+      }
+    }
+    if (next === undefined) {
+      this.m_isReserved = false;
+      return;
+    }
+    dequeue(nextQueue!);
+    next.granted = true;
+    next.resolve();
+  }
+
+  private repeatedRelease() {
+    if (this.strictRelease) throw new LockReleasedError(this.name);
+  }
+
   /**
    * Acquires the lock and returns a disposable object for use with 'using' syntax.
    * The lock is automatically released when the scope exits, even on errors, providing
    * safer and more concise code. Supports bypass for conditional use.
    *
-   * @param bypass - If true, skips acquiring the lock. Defaults to false.
+   * @param options - Either the bypass flag, or acquisition options. Defaults to false.
    * @returns A promise resolving to an object with [Symbol.dispose] that releases the lock.
    * @example
    * ```typescript
@@ -116,9 +513,99 @@ export class Mutex {
    * }
    * ```
    */
-  public async lock(bypass = false) {
+  public async lock(options: boolean | MutexAcquireOptions = false) {
     return {
-      [Symbol.dispose]: await this.obtain(bypass),
+      [Symbol.dispose]: await this.obtain(options),
+    };
+  }
+
+  /**
+   * Acquires the lock, runs the callback and releases the lock once it settles.
+   * In the `diagnostics` mode, the callback is also a call chain: the locks it waits for while
+   * holding this one are checked for wait-for cycles.
+   *
+   * @param callback - The critical section; may be async.
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise resolving to the callback's result.
+   * @throws {LockTimeoutError} If `timeoutMs` elapses before the lock is acquired.
+   * @example
+   * ```typescript
+   * const balance = await mutex.runExclusive(async () => {
+   *   await ledger.apply(entry);
+   *   return ledger.balance;
+   * });
+   * ```
+   */
+  public runExclusive<T>(callback: () => T | PromiseLike<T>, options: MutexAcquireOptions = {}) {
+    return runInCallChain(async () => {
+      const release = await this.obtain(options);
+      try {
+        return await callback();
+      } finally {
+        release();
+      }
+    });
+  }
+
+  /**
+   * Acquires the lock as a lease that releases itself after the given duration, so a holder
+   * stuck on an operation that never completes cannot hold up the waiters forever.
+   * On expiry the handle's `signal` aborts; the holder should stop working under the lock,
+   * and {@link LeaseHandle.renew | renew} the lease ahead of time when it needs longer.
+   *
+   * @param durationMs - How long the lease lasts once acquired, in milliseconds.
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise resolving to the lease handle.
+   * @throws {LockTimeoutError} If `timeoutMs` elapses before the lock is acquired.
+   * @example
+   * ```typescript
+   * {
+   *   using lease = await mutex.lease(5000);
+   *   for (const chunk of chunks) {
+   *     await upload(chunk, { signal: lease.signal });
+   *     lease.renew(5000);
+   *   }
+   * }
+   * ```
+   */
+  public async lease(durationMs: number, options: AcquireOptions = {}): Promise<LeaseHandle> {
+    const release = await this.obtain(options);
+    const controller = new AbortController();
+    let state: 'held' | 'expired' | 'released' = 'held';
+    let timer: ReturnType<typeof setTimeout>;
+    const start = (ms: number) => {
+      timer = setTimeout(() => {
+        state = 'expired';
+        release();
+        controller.abort(new LeaseExpiredError(this.name, ms));
+      }, Math.min(2147483647, ms));
+    };
+    const releaseLease = () => {
+      if (state === 'held') {
+        state = 'released';
+        clearTimeout(timer);
+        release();
+        return true;
+      }
+      if (this.strictRelease) {
+        throw state === 'expired' ? controller.signal.reason : new LockReleasedError(this.name);
+      }
+      return false;
+    };
+    start(durationMs);
+    return {
+      signal: controller.signal,
+      get expired() {
+        return state === 'expired';
+      },
+      renew: ms => {
+        if (state === 'expired') throw controller.signal.reason;
+        if (state === 'released') throw new LockReleasedError(this.name);
+        clearTimeout(timer);
+        start(ms);
+      },
+      release: releaseLease,
+      [Symbol.dispose]: () => void releaseLease(),
     };
   }
 }
@@ -131,6 +618,8 @@ export class Mutex {
  * and supports modern 'using' syntax for automatic management.
  *
  * Readers can overlap, but writers block all until exclusive access is granted.
+ * By default queued writers go first; pass a {@link MutexRWPolicy} to favour readers
+ * or to serve everyone in arrival order.
  *
  * @example
  * ```typescript
@@ -144,13 +633,46 @@ export class Mutex {
  * ```
  */
 export class MutexRW {
-  private m_nextRWPromise: Promise<void> = Promise.resolve();
-  private m_lastRWPromise: Promise<void> = Promise.resolve();
-  private m_lastROPromise: Promise<unknown> = Promise.resolve();
+  private readonly m_readWaiters: RWWaiter[] = [];
+  private readonly m_upgradableWaiters: RWWaiter[] = [];
+  private readonly m_writeWaiters: RWWaiter[] = [];
+  private m_nextSeq = 0;
   private m_activeReadCount = 0;
   private m_isWriteLocked = false;
+  private m_hasUpgradableReader = false;
+  private m_pendingUpgrade: PendingUpgrade | null = null;
+  private readonly m_instrumentation: LockInstrumentation;
+
+  /**
+   * The name of the lock, as reported by {@link LockTimeoutError}.
+   */
+  public readonly name: string;
+
+  /**
+   * The order in which queued readers and writers are granted the lock.
+   */
+  public readonly policy: MutexRWPolicy;
+
+  /**
+   * Whether a repeated release throws {@link LockReleasedError} instead of doing nothing.
+   */
+  public readonly strictRelease: boolean;
 
-  private m_readWaitingCount = 0;
+  /**
+   * Initializes a new unlocked MutexRW.
+   *
+   * @param options - Optional settings, such as a name used in error messages and the fairness policy.
+   * @example
+   * ```typescript
+   * const config = new MutexRW({ name: 'config', policy: 'read-preferring' });
+   * ```
+   */
+  public constructor(options: MutexRWOptions = {}) {
+    this.name = options.name ?? 'MutexRW';
+    this.policy = options.policy ?? 'write-preferring';
+    this.strictRelease = options.strictRelease ?? false;
+    this.m_instrumentation = new LockInstrumentation(this.name, options.diagnostics);
+  }
 
   /**
    * The number of tasks currently waiting to acquire a read lock.
@@ -178,7 +700,7 @@ export class MutexRW {
    * ```
    */
   public get readWaitingCount() {
-    return this.m_readWaitingCount;
+    return this.m_readWaiters.length + this.m_upgradableWaiters.length;
   }
 
   /**
@@ -211,8 +733,6 @@ export class MutexRW {
     return this.m_activeReadCount > 0;
   }
 
-  private m_writeWaitingCount = 0;
-
   /**
    * The number of tasks currently waiting to acquire a write lock.
    * Does not include the task that currently holds a write lock (if any).
@@ -235,7 +755,7 @@ export class MutexRW {
    * ```
    */
   public get writeWaitingCount() {
-    return this.m_writeWaitingCount;
+    return this.m_writeWaiters.length;
   }
 
   /**
@@ -288,35 +808,54 @@ export class MutexRW {
     return this.m_activeReadCount;
   }
 
+  /**
+   * Starts calling the listener for every acquisition event of the lock: requested, acquired,
+   * abandoned and released, with wait and hold durations. Feed it to {@link LockMetrics}
+   * for aggregated counts and histograms.
+   *
+   * @param listener - The function receiving the events.
+   * @returns A function that stops the listener.
+   * @example
+   * ```typescript
+   * const stop = mutexRW.observe(event => {
+   *   if (event.type === 'released') console.log(`held for ${event.holdMs}ms`);
+   * });
+   * ```
+   */
+  public observe(listener: LockListener) {
+    return this.m_instrumentation.observe(listener);
+  }
+
   /**
    * Acquires a read lock, allowing multiple concurrent readers.
    * Waits if a writer is active. Returns a release function that must be called
    * in a finally block to decrement the reader count.
    *
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout to stop waiting.
    * @returns A promise resolving to a function that releases the read lock.
+   * @throws {LockTimeoutError} If `timeoutMs` elapses before the lock is acquired.
    */
-  public async obtainRead(): Promise<() => void> {
-    ++this.m_readWaitingCount;
-    while (this.m_writeWaitingCount) await this.m_nextRWPromise;
-    while (this.m_isWriteLocked) await this.m_lastRWPromise;
-    --this.m_readWaitingCount;
-    ++this.m_activeReadCount;
-    let releaseRead = releaseStub;
-    const thisReadPromise = new Promise<void>(resolve => (releaseRead = resolve));
-    this.m_lastROPromise = Promise.all([thisReadPromise, this.m_lastROPromise]);
-    void thisReadPromise.then(() => --this.m_activeReadCount);
-    // Uncomment to detect deadlocks
-    // const s = new Error().stack;
-    // Promise.race([thisReadPromise, timeout(10000).then(() => true)]).then(
-    //   v => v === true && console.warn('possible deadlock', s),
-    // );
-    return releaseRead;
+  public async obtainRead(options: AcquireOptions = {}): Promise<() => void> {
+    return this.releaser('read', await this.acquire('read', options));
+  }
+
+  /**
+   * Acquires a read lock only if it can be granted right now, without waiting.
+   * Under the default policy this fails while a writer holds the lock or is queued for it,
+   * so a reader never jumps ahead of a writer.
+   *
+   * @returns A function that releases the read lock, or null if it is not available.
+   */
+  public tryObtainRead(): (() => void) | null {
+    const probe = this.tryAcquire('read');
+    return probe === false ? null : this.releaser('read', probe);
   }
 
   /**
    * Acquires a read lock and returns a disposable object for 'using' syntax.
    * Automatically releases the read lock on scope exit, simplifying error-prone manual management.
    *
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout to stop waiting.
    * @returns A promise resolving to an object with [Symbol.dispose] that releases the read lock.
    * @example
    * ```typescript
@@ -326,51 +865,381 @@ export class MutexRW {
    * }
    * ```
    */
-  public async lockRead() {
+  public async lockRead(options: AcquireOptions = {}) {
     return {
-      [Symbol.dispose]: await this.obtainRead(),
+      [Symbol.dispose]: await this.obtainRead(options),
     };
   }
 
+  /**
+   * Acquires a read lock, runs the callback and releases the lock once it settles.
+   * In the `diagnostics` mode, the callback is also a call chain, see {@link Mutex.runExclusive}.
+   *
+   * @param callback - The read section; may be async.
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise resolving to the callback's result.
+   * @throws {LockTimeoutError} If `timeoutMs` elapses before the lock is acquired.
+   */
+  public runRead<T>(callback: () => T | PromiseLike<T>, options: AcquireOptions = {}) {
+    return runInCallChain(async () => {
+      const release = await this.obtainRead(options);
+      try {
+        return await callback();
+      } finally {
+        release();
+      }
+    });
+  }
+
   /**
    * Acquires a write lock, ensuring exclusive access.
    * Waits for all readers and previous writers to finish. Returns a release function
    * that must be called in a finally block to allow others to proceed.
    *
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout to stop waiting.
    * @returns A promise resolving to a function that releases the write lock.
+   * @throws {LockTimeoutError} If `timeoutMs` elapses before the lock is acquired.
+   */
+  public async obtainWrite(options: AcquireOptions = {}): Promise<() => void> {
+    return this.releaser('write', await this.acquire('write', options));
+  }
+
+  /**
+   * Acquires the write lock only if it can be granted right now, without waiting.
+   * Fails while any reader or writer holds the lock or a writer is queued for it.
+   *
+   * @returns A function that releases the write lock, or null if it is not available.
+   * @example
+   * ```typescript
+   * const release = cacheLock.tryObtainWrite();
+   * if (release === null) return; // another task is already refreshing
+   * try {
+   *   await refreshCache();
+   * } finally {
+   *   release();
+   * }
+   * ```
    */
-  public async obtainWrite(): Promise<() => void> {
-    let releaseWrite = releaseStub;
-    const prevWritePromise = this.m_nextRWPromise;
-    const thisWritePromise = new Promise<void>(resolve => (releaseWrite = resolve));
-    this.m_nextRWPromise = thisWritePromise;
-    ++this.m_writeWaitingCount;
-    await prevWritePromise;
-    while (this.m_activeReadCount) await this.m_lastROPromise;
-    --this.m_writeWaitingCount;
-    this.m_isWriteLocked = true;
-    this.m_lastRWPromise = thisWritePromise;
-    void this.m_lastRWPromise.then(() => (this.m_isWriteLocked = false));
-    return releaseWrite;
+  public tryObtainWrite(): (() => void) | null {
+    const probe = this.tryAcquire('write');
+    return probe === false ? null : this.releaser('write', probe);
   }
 
   /**
    * Acquires a write lock and returns a disposable object for 'using' syntax.
    * Automatically releases the write lock on scope exit, ensuring safety in complex flows.
+   * The handle can also {@link WriteLockHandle.downgrade | downgrade} to a read lock
+   * once the writing is done, without letting a queued writer in between.
    *
-   * @returns A promise resolving to an object with [Symbol.dispose] that releases the write lock.
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise resolving to a write lock handle with [Symbol.dispose] that releases the lock.
    * @example
    * ```typescript
    * {
    *   using _ = await mutexRW.lockWrite();
    *   // Write section, auto-released
    * }
+   *
+   * {
+   *   using lock = await mutexRW.lockWrite();
+   *   await write();
+   *   lock.downgrade();
+   *   await readBack(); // other readers may join, writers still wait
+   * }
    * ```
    */
-  public async lockWrite() {
-    return {
-      [Symbol.dispose]: await this.obtainWrite(),
+  public async lockWrite(options: AcquireOptions = {}): Promise<WriteLockHandle> {
+    const probe = await this.acquire('write', options);
+    let held: 'read' | 'write' | null = 'write';
+    const handle: WriteLockHandle = {
+      downgrade: () => {
+        if (held !== 'write') throw new Error('Cannot downgrade: the write lock is not held');
+        held = 'read';
+        this.downgradeHeld();
+      },
+      [Symbol.dispose]: () => {
+        if (held === null) return this.repeatedRelease();
+        this.release(held);
+        held = null;
+        probe?.released();
+      },
+    };
+    probe?.acquired(handle);
+    return handle;
+  }
+
+  /**
+   * Acquires the write lock, runs the callback and releases the lock once it settles.
+   * In the `diagnostics` mode, the callback is also a call chain, see {@link Mutex.runExclusive}.
+   *
+   * @param callback - The write section; may be async.
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise resolving to the callback's result.
+   * @throws {LockTimeoutError} If `timeoutMs` elapses before the lock is acquired.
+   */
+  public runWrite<T>(callback: () => T | PromiseLike<T>, options: AcquireOptions = {}) {
+    return runInCallChain(async () => {
+      const release = await this.obtainWrite(options);
+      try {
+        return await callback();
+      } finally {
+        release();
+      }
+    });
+  }
+
+  /**
+   * Acquires an upgradable read lock. It shares access with plain readers, but at most one
+   * upgradable reader is admitted at a time, which is what makes a deadlock-free
+   * {@link UpgradableReadHandle.upgrade | upgrade} to exclusive access possible.
+   * Use it for read-then-maybe-write flows where releasing and re-acquiring as a writer would
+   * open a window for the data to change.
+   *
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise resolving to an upgradable read handle.
+   * @throws {LockTimeoutError} If `timeoutMs` elapses before the lock is acquired.
+   * @example
+   * ```typescript
+   * using lock = await mutexRW.obtainUpgradableRead();
+   * const entry = cache.get(key);
+   * if (isStale(entry)) {
+   *   await lock.upgrade(); // exclusive from here on, entry is still current
+   *   cache.set(key, await reload(key));
+   * }
+   * ```
+   */
+  public async obtainUpgradableRead(options: AcquireOptions = {}): Promise<UpgradableReadHandle> {
+    const probe = await this.acquire('upgradable', options);
+    let held: 'upgradable' | 'write' | null = 'upgradable';
+    const handle: UpgradableReadHandle = {
+      get isUpgraded() {
+        return held === 'write';
+      },
+      upgrade: async (upgradeOptions = {}) => {
+        if (held === null) throw new Error('Cannot upgrade: the lock has been released');
+        if (held === 'write') return;
+        if (this.m_pendingUpgrade !== null) throw new Error('Cannot upgrade: an upgrade is already in progress');
+        await this.upgradeHeld(upgradeOptions);
+        held = 'write';
+      },
+      downgrade: () => {
+        if (held !== 'write') throw new Error('Cannot downgrade: the lock is not upgraded');
+        held = 'upgradable';
+        this.downgradeHeld();
+      },
+      release: () => {
+        if (held === null) return this.repeatedRelease();
+        const pending = this.m_pendingUpgrade;
+        if (pending !== null) {
+          this.m_pendingUpgrade = null;
+          pending.reject(new Error('Upgrade abandoned: the lock was released'));
+        }
+        if (held === 'write') this.m_isWriteLocked = false;
+        else --this.m_activeReadCount;
+        this.m_hasUpgradableReader = false;
+        held = null;
+        this.dispatch();
+        probe?.released();
+      },
+      [Symbol.dispose]: () => handle.release(),
+    };
+    probe?.acquired(handle);
+    return handle;
+  }
+
+  private async acquire(kind: RWKind, options: AcquireOptions) {
+    const { signal, timeoutMs, label } = options;
+    signal?.throwIfAborted();
+    const probe = this.m_instrumentation.begin(kind, label);
+    const queue = this.queueOf(kind);
+    let waiter!: RWWaiter;
+    const granted = new Promise<void>(
+      resolve => (waiter = { seq: this.m_nextSeq++, granted: false, resolve }),
+    );
+    queue.push(waiter);
+    this.dispatch();
+    if (!waiter.granted) {
+      probe?.waiting();
+      const cancel = cancellation(signal, timeoutMs, ms => new LockTimeoutError(this.name, ms));
+      try {
+        await race(granted, cancel);
+      } catch (error) {
+        if (waiter.granted) {
+          // Granted while the rejection was in flight: hand the lock straight back
+          this.release(kind);
+        } else {
+          queue.splice(queue.indexOf(waiter), 1);
+          // A writer leaving the queue may let readers in, and vice versa
+          this.dispatch();
+        }
+        probe?.abandoned();
+        throw error;
+      } finally {
+        cancel?.dispose();
+      }
+    }
+    return probe;
+  }
+
+  /**
+   * Grants the lock if possible right now. Returns false if not granted, otherwise the probe
+   * reporting the acquisition, if the lock is instrumented.
+   */
+  private tryAcquire(kind: RWKind) {
+    const queue = this.queueOf(kind);
+    const waiter: RWWaiter = { seq: this.m_nextSeq++, granted: false, resolve: releaseStub };
+    queue.push(waiter);
+    this.dispatch();
+    if (!waiter.granted) {
+      queue.splice(queue.indexOf(waiter), 1);
+      return false;
+    }
+    const probe = this.m_instrumentation.begin(kind, undefined);
+    return probe;
+  }
+
+  private queueOf(kind: RWKind) {
+    switch (kind) {
+      case 'read':
+        return this.m_readWaiters;
+      case 'upgradable':
+        return this.m_upgradableWaiters;
+      case 'write':
+        return this.m_writeWaiters;
+    }
+  }
+
+  private releaser(kind: RWKind, probe: AcquisitionProbe | null) {
+    let released = false;
+    const release = () => {
+      if (released) return this.repeatedRelease();
+      released = true;
+      this.release(kind);
+      probe?.released();
     };
+    probe?.acquired(release);
+    return release;
+  }
+
+  private repeatedRelease() {
+    if (this.strictRelease) throw new LockReleasedError(this.name);
+  }
+
+  private release(kind: RWKind) {
+    if (kind === 'write') {
+      this.m_isWriteLocked = false;
+    } else {
+      --this.m_activeReadCount;
+      if (kind === 'upgradable') this.m_hasUpgradableReader = false;
+    }
+    this.dispatch();
+  }
+
+  private async upgradeHeld(options: AcquireOptions) {
+    const { signal, timeoutMs } = options;
+    signal?.throwIfAborted();
+    let pending!: PendingUpgrade;
+    const granted = new Promise<void>(
+      (resolve, reject) => (pending = { granted: false, resolve, reject }),
+    );
+    this.m_pendingUpgrade = pending;
+    this.dispatch();
+    if (pending.granted) return;
+    const cancel = cancellation(signal, timeoutMs, ms => new LockTimeoutError(this.name, ms));
+    try {
+      await race(granted, cancel);
+    } catch (error) {
+      if (pending.granted) {
+        // Granted while the rejection was in flight: fall back to the read lock
+        this.downgradeHeld();
+      } else if (this.m_pendingUpgrade === pending) {
+        this.m_pendingUpgrade = null;
+        // Readers held back by the upgrade may proceed
+        this.dispatch();
+      }
+      throw error;
+    } finally {
+      cancel?.dispose();
+    }
+  }
+
+  private downgradeHeld() {
+    this.m_isWriteLocked = false;
+    ++this.m_activeReadCount;
+    this.dispatch();
+  }
+
+  private canGrant(kind: RWKind) {
+    switch (kind) {
+      case 'read':
+        return this.m_pendingUpgrade === null;
+      case 'upgradable':
+        return !this.m_hasUpgradableReader;
+      case 'write':
+        return this.m_activeReadCount === 0;
+    }
+  }
+
+  /**
+   * Of the given kinds, the one whose queue head arrived first, or null if all queues are empty.
+   */
+  private earliest(kinds: RWKind[]): RWKind | null {
+    let result: RWKind | null = null;
+    let resultSeq = Infinity;
+    for (const kind of kinds) {
+      const seq = this.queueOf(kind)[0]?.seq ?? Infinity;
+      if (seq < resultSeq) {
+        result = kind;
+        resultSeq = seq;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Picks which kind of waiter the policy lets in next, or null if nobody can be granted now.
+   */
+  private nextKind(): RWKind | null {
+    if (this.m_isWriteLocked) return null;
+    const readKinds: RWKind[] = ['read', 'upgradable'];
+    switch (this.policy) {
+      case 'write-preferring':
+        if (this.m_writeWaiters.length) return this.canGrant('write') ? 'write' : null;
+        return this.earliest(readKinds.filter(kind => this.canGrant(kind)));
+      case 'read-preferring': {
+        const kind = this.earliest(readKinds.filter(kind => this.canGrant(kind)));
+        if (kind !== null) return kind;
+        return this.m_writeWaiters.length && this.canGrant('write') ? 'write' : null;
+      }
+      case 'fair': {
+        const kind = this.earliest([...readKinds, 'write']);
+        return kind !== null && this.canGrant(kind) ? kind : null;
+      }
+    }
+  }
+
+  private dispatch() {
+    const upgrade = this.m_pendingUpgrade;
+    if (upgrade !== null && !this.m_isWriteLocked && this.m_activeReadCount === 1) {
+      // Only the upgrading reader is left: it goes ahead of every queued waiter
+      this.m_pendingUpgrade = null;
+      --this.m_activeReadCount;
+      this.m_isWriteLocked = true;
+      upgrade.granted = true;
+      upgrade.resolve();
+      return;
+    }
+    for (let kind = this.nextKind(); kind !== null; kind = this.nextKind()) {
+      const waiter = this.queueOf(kind).shift()!;
+      if (kind === 'write') {
+        this.m_isWriteLocked = true;
+      } else {
+        ++this.m_activeReadCount;
+        if (kind === 'upgradable') this.m_hasUpgradableReader = true;
+      }
+      waiter.granted = true;
+      waiter.resolve();
+    }
   }
 
   // Backward compatibility aliases
@@ -77,4 +77,105 @@ describe('promise-barrier', { timeout: 10000 }, () => {
     await timeout(30);
     await ensureTimesOut(barrier, false);
   });
+
+  it.concurrent('reports the failures of the round through settled', async () => {
+    const barrier = new PromiseBarrier({ name: 'writes' });
+    await expect(barrier.settled).resolves.toBeUndefined();
+
+    barrier.add(Promise.reject(new Error('first')));
+    barrier.add(timeout(10));
+    barrier.add(timeout(5).then(() => Promise.reject(new Error('second'))));
+    await expect(barrier.settled).rejects.toMatchObject({
+      message: '2 of the promises tracked by "writes" failed',
+      errors: [new Error('first'), new Error('second')],
+    });
+    await expect(barrier.free).resolves.toBeUndefined();
+    // Still reports the round that ended
+    await expect(barrier.settled).rejects.toBeInstanceOf(AggregateError);
+
+    // A new round starts once the barrier was empty
+    barrier.add(timeout(5));
+    await expect(barrier.settled).resolves.toBeUndefined();
+  });
+
+  it.concurrent('rejects free on the first failure in fail-fast mode', async () => {
+    const barrier = new PromiseBarrier({ failFast: true });
+    let finished = false;
+    barrier.add(timeout(30).then(() => void (finished = true)));
+    barrier.add(timeout(5).then(() => Promise.reject(new Error('boom'))));
+    await expect(barrier.free).rejects.toThrow('boom');
+    expect(finished).toBe(false);
+    await expect(barrier.free).rejects.toThrow('boom');
+
+    await expect(barrier.settled).rejects.toMatchObject({ errors: [new Error('boom')] });
+    expect(finished).toBe(true);
+    await expect(barrier.free).resolves.toBeUndefined();
+
+    barrier.add(timeout(5));
+    await expect(barrier.free).resolves.toBeUndefined();
+  });
+
+  it.concurrent('calls onError for every failure without changing free', async () => {
+    const errors: unknown[] = [];
+    const barrier = new PromiseBarrier({ onError: error => void errors.push(error) });
+    barrier.add(Promise.reject(new Error('a')));
+    barrier.add(Promise.resolve());
+    barrier.add(timeout(5).then(() => Promise.reject(new Error('b'))));
+    await expect(barrier.free).resolves.toBeUndefined();
+    expect(errors).toEqual([new Error('a'), new Error('b')]);
+  });
+
+  it.concurrent('runs at most maxConcurrent tasks at once', async () => {
+    const barrier = new PromiseBarrier({ maxConcurrent: 3 });
+    let running = 0;
+    let peak = 0;
+    let finished = 0;
+    const task = async () => {
+      peak = Math.max(peak, ++running);
+      await timeout(Math.random() * 10);
+      --running;
+      ++finished;
+    };
+    for (let i = 0; i < 10; ++i) {
+      await barrier.add(task);
+      expect(barrier.activeCount).toBeLessThanOrEqual(3);
+    }
+    await barrier.free;
+    expect(peak).toBe(3);
+    expect(finished).toBe(10);
+    expect(barrier.activeCount).toBe(0);
+    expect(() => new PromiseBarrier({ maxConcurrent: 0 })).toThrow(RangeError);
+  });
+
+  it.concurrent('resolves add once the task has started', async () => {
+    const barrier = new PromiseBarrier({ maxConcurrent: 1 });
+    const started: number[] = [];
+    const adds = [0, 1, 2].map(i =>
+      barrier.add(async () => {
+        started.push(i);
+        await timeout(10);
+      }),
+    );
+    expect(barrier.activeCount).toBe(1);
+    expect(barrier.pendingCount).toBe(2);
+    await adds[1];
+    expect(started).toEqual([0, 1]);
+    expect(barrier.pendingCount).toBe(1);
+
+    // free waits for the tasks still to start
+    await barrier.free;
+    expect(started).toEqual([0, 1, 2]);
+    expect(barrier.pendingCount).toBe(0);
+  });
+
+  it.concurrent('records tasks that throw as failures', async () => {
+    const barrier = new PromiseBarrier({ maxConcurrent: 1 });
+    barrier.add(timeout(10));
+    const adding = barrier.add(() => {
+      throw new Error('sync');
+    });
+    barrier.add(() => Promise.reject(new Error('async')));
+    await adding;
+    await expect(barrier.settled).rejects.toMatchObject({ errors: [new Error('sync'), new Error('async')] });
+  });
 });
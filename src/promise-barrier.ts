@@ -1,3 +1,64 @@
+/**
+ * Options accepted by the {@link PromiseBarrier} constructor.
+ */
+export interface PromiseBarrierOptions {
+  /** A name identifying the barrier in errors. Defaults to `'PromiseBarrier'`. */
+  name?: string;
+  /**
+   * Makes {@link PromiseBarrier.free} reject with the first failure of the round, without waiting
+   * for the other promises. Defaults to false: `free` resolves whatever the outcome.
+   */
+  failFast?: boolean;
+  /** Called with the reason of every tracked promise that rejects. */
+  onError?: (error: unknown) => void;
+  /**
+   * The most tasks running at once; tasks added beyond it wait for room, see
+   * {@link PromiseBarrier.add}. Defaults to Infinity.
+   */
+  maxConcurrent?: number;
+}
+
+/**
+ * What {@link PromiseBarrier.add} tracks: an already started promise, or a function starting a task
+ * once there is room for it.
+ */
+export type PromiseBarrierTask = Promise<unknown> | (() => PromiseLike<unknown>);
+
+interface PendingTask {
+  readonly task: () => PromiseLike<unknown>;
+  readonly started: () => void;
+}
+
+/**
+ * The promises tracked between two points where the barrier was empty, and how they failed.
+ */
+interface Round {
+  readonly errors: unknown[];
+  /** Rejects with the first failure of the round. */
+  readonly failed: Promise<never>;
+  fail(error: unknown): void;
+}
+
+function ignore() {
+  return;
+}
+
+function createRound(): Round {
+  let reject!: (error: unknown) => void;
+  const failed = new Promise<never>((_resolve, rej) => (reject = rej));
+  // Only observed in fail-fast mode
+  failed.catch(ignore);
+  const errors: unknown[] = [];
+  return {
+    errors,
+    failed,
+    fail: error => {
+      errors.push(error);
+      reject(error);
+    },
+  };
+}
+
 /**
  * A utility class to manage and wait for the completion of tracked promises.
  * PromiseBarrier is designed for scenarios where you need to coordinate multiple asynchronous operations,
@@ -5,6 +66,12 @@
  * resource cleanup in concurrent environments. It efficiently tracks promises and provides a 'free'
  * promise that resolves only when all tracked promises have settled (resolved or rejected).
  *
+ * With `maxConcurrent`, the barrier also limits how many tasks run at once: tasks added as functions
+ * start only when there is room, and `add` resolves once they did, pushing back on the producer.
+ *
+ * Failures are collected per round, from the first promise added to an empty barrier until it is
+ * empty again: {@link settled} reports them together, `onError` one at a time as they happen.
+ *
  * This class is particularly useful in server-side rendering, API orchestration, or any system
  * requiring synchronization of promises without blocking the main thread.
  *
@@ -14,41 +81,162 @@
  * barrier.add(someAsyncOperation());
  * barrier.add(anotherAsyncOperation());
  * await barrier.free; // Waits until both operations complete
+ *
+ * const uploads = new PromiseBarrier({ maxConcurrent: 4 });
+ * for (const file of files) await uploads.add(() => upload(file)); // at most 4 at once
+ * await uploads.free;
  * ```
  */
 export class PromiseBarrier {
   private readonly m_activePromises = new Set<Promise<unknown>>();
+  private readonly m_pendingTasks: PendingTask[] = [];
+  private m_round = createRound();
+  private readonly m_failFast: boolean;
+  private readonly m_onError: ((error: unknown) => void) | undefined;
+  private readonly m_maxConcurrent: number;
+
+  /**
+   * The name of the barrier, as reported in errors.
+   */
+  public readonly name: string;
+
+  /**
+   * Initializes a new PromiseBarrier tracking no promises.
+   *
+   * @param options - Optional settings, such as the fail-fast mode, an error hook and a concurrency cap.
+   * @throws {RangeError} If `maxConcurrent` is not a positive integer or Infinity.
+   */
+  public constructor(options: PromiseBarrierOptions = {}) {
+    this.name = options.name ?? 'PromiseBarrier';
+    this.m_failFast = options.failFast ?? false;
+    this.m_onError = options.onError;
+    const maxConcurrent = options.maxConcurrent ?? Infinity;
+    if (!(Number.isInteger(maxConcurrent) || maxConcurrent === Infinity) || maxConcurrent < 1) {
+      throw new RangeError(`Expected a positive integer maxConcurrent, got ${maxConcurrent}`);
+    }
+    this.m_maxConcurrent = maxConcurrent;
+  }
+
+  /**
+   * The number of tracked promises that have not settled yet, including started tasks.
+   *
+   * @returns The count of running promises.
+   */
+  public get activeCount() {
+    return this.m_activePromises.size;
+  }
+
+  /**
+   * The number of tasks waiting for room to start.
+   *
+   * @returns The count of tasks not started yet.
+   */
+  public get pendingCount() {
+    return this.m_pendingTasks.length;
+  }
 
   /**
    * Tracks a promise, ensuring it's monitored until completion.
    * The promise is added to the internal set and automatically removed upon settlement.
-   * Errors are caught silently to prevent unhandled rejections from affecting tracking.
+   * Errors are caught to prevent unhandled rejections, and recorded for {@link settled} and `onError`.
+   *
+   * A task given as a function is called once fewer than `maxConcurrent` promises run, after the
+   * tasks that were waiting before it; a function that throws counts as a failed task. A promise is
+   * tracked right away, since it is already running, and counts against the limit.
    *
-   * @param promise - The promise to track. Can be any Promise<unknown>.
+   * @param task - The promise to track, or a function starting the task and returning its promise.
+   * @returns A promise that resolves once the task has started, for backpressure; it never rejects.
    */
-  public add(promise: Promise<unknown>) {
-    this.m_activePromises.add(promise);
-    void promise
-      .catch(() => {
-        return;
-      })
-      .finally(() => this.m_activePromises.delete(promise));
+  public add(task: PromiseBarrierTask): Promise<void> {
+    // The first task of an empty barrier starts a new round
+    if (this.isIdle) this.m_round = createRound();
+    if (typeof task !== 'function') {
+      this.track(task);
+      return Promise.resolve();
+    }
+    if (this.m_pendingTasks.length === 0 && this.m_activePromises.size < this.m_maxConcurrent) {
+      this.start(task);
+      return Promise.resolve();
+    }
+    return new Promise(started => this.m_pendingTasks.push({ task, started }));
   }
 
   private m_cachedFree: null | Promise<void> = null;
   /**
-   * A promise that resolves once all tracked promises have completed (settled).
+   * A promise that resolves once all tracked promises have completed (settled), and every task
+   * waiting for room has run.
    * If no promises are tracked, it resolves immediately. The result is cached for efficiency
    * but invalidated as new promises are added. This property is read-only and can be awaited
    * multiple times safely.
    *
+   * In fail-fast mode, it rejects with the reason of the first promise of the round that rejects.
+   *
    * @returns A promise that resolves with void when all tracked promises are settled.
    */
   public get free(): Promise<void> {
     if (this.m_cachedFree !== null) return this.m_cachedFree;
-    if (this.m_activePromises.size === 0) return Promise.resolve();
-    return (this.m_cachedFree = Promise.allSettled(this.m_activePromises).then(
-      () => ((this.m_cachedFree = null), this.free),
-    ));
+    if (this.isIdle) return Promise.resolve();
+    const free = Promise.allSettled(this.m_activePromises).then(() => ((this.m_cachedFree = null), this.free));
+    return (this.m_cachedFree = this.m_failFast ? Promise.race([free, this.m_round.failed]) : free);
+  }
+
+  /**
+   * A promise that settles once all tracked promises have, like {@link free}, but reports failures:
+   * it rejects with an `AggregateError` of every failure of the round, the promises tracked since
+   * the barrier was last empty. Once the barrier is empty, it reports the round that just ended.
+   *
+   * @returns A promise that resolves with void when all tracked promises are settled successfully.
+   * @throws {AggregateError} If any promise of the round rejected, with the reasons in `errors`.
+   */
+  public get settled(): Promise<void> {
+    return this.quiescence().then(errors => {
+      if (errors.length > 0) {
+        throw new AggregateError(errors, `${errors.length} of the promises tracked by "${this.name}" failed`);
+      }
+    });
+  }
+
+  /**
+   * Waits until no promises are tracked, and returns the failures of the round that just ended.
+   */
+  private async quiescence() {
+    while (!this.isIdle) await Promise.allSettled(this.m_activePromises);
+    return [...this.m_round.errors];
+  }
+
+  private get isIdle() {
+    return this.m_activePromises.size === 0 && this.m_pendingTasks.length === 0;
+  }
+
+  private start(task: () => PromiseLike<unknown>) {
+    this.track((async () => await task())());
+  }
+
+  private track(promise: Promise<unknown>) {
+    const round = this.m_round;
+    this.m_activePromises.add(promise);
+    void promise
+      .catch((error: unknown) => this.fail(round, error))
+      .finally(() => {
+        this.m_activePromises.delete(promise);
+        // Started in the same step, so the barrier never looks idle with tasks still to run
+        while (this.m_pendingTasks.length > 0 && this.m_activePromises.size < this.m_maxConcurrent) {
+          const { task, started } = this.m_pendingTasks.shift()!;
+          this.start(task);
+          started();
+        }
+      });
+  }
+
+  private fail(round: Round, error: unknown) {
+    round.fail(error);
+    try {
+      this.m_onError?.(error);
+    } catch (hookError) {
+      // A faulty hook must not stop the promise from being untracked
+      queueMicrotask(() => {
+        throw hookError;
+      });
+    }
   }
 }
@@ -0,0 +1,162 @@
+import { describe, expect, it, vi } from 'vitest';
+import { LockTimeoutError, ReentrantMutex, timeout } from '.';
+
+describe('reentrant-mutex', { timeout: 10000 }, () => {
+  it('tracks ownership through the async context on Node.js', () => {
+    expect(new ReentrantMutex().tracksAsyncContext).toBe(true);
+  });
+
+  it.concurrent('never allows different call chains interfere', async () => {
+    const mutex = new ReentrantMutex();
+    let cntAccess = 0;
+    const nested = async () => {
+      using _ = await mutex.lock();
+      expect(cntAccess).toBe(1);
+      await timeout(Math.random() * 5);
+    };
+    const f = () =>
+      mutex.runExclusive(async () => {
+        expect(++cntAccess).toBe(1);
+        await nested();
+        await timeout(Math.random() * 5);
+        await nested();
+        --cntAccess;
+        if (Math.random() > 0.5) throw new Error();
+      });
+    const threads: Promise<unknown>[] = [];
+    for (let i = 0; i < 50; ++i) {
+      threads.push(f());
+    }
+    await Promise.allSettled(threads);
+    expect(cntAccess).toBe(0);
+    expect(mutex.isLocked).toBe(false);
+    expect(mutex.waitingCount).toBe(0);
+  });
+
+  it.concurrent('counts nested holds and releases with the outermost one', async () => {
+    const mutex = new ReentrantMutex();
+    let otherAcquired = false;
+    let finishOuter!: () => void;
+    const outer = mutex.runExclusive(async () => {
+      expect(mutex.holdCount).toBe(1);
+      const releaseInner = await mutex.obtain();
+      expect(mutex.holdCount).toBe(2);
+      releaseInner();
+      releaseInner();
+      expect(mutex.holdCount).toBe(1);
+      await new Promise<void>(resolve => (finishOuter = resolve));
+    });
+    const other = (async () => {
+      const release = await mutex.obtain();
+      otherAcquired = true;
+      release();
+    })();
+
+    await timeout(5);
+    expect(mutex.waitingCount).toBe(1);
+    expect(otherAcquired).toBe(false);
+
+    finishOuter();
+    await outer;
+    await other;
+    expect(otherAcquired).toBe(true);
+    expect(mutex.isLocked).toBe(false);
+  });
+
+  it.concurrent('shares the lock with tasks spawned by the owner', async () => {
+    const mutex = new ReentrantMutex();
+    await mutex.runExclusive(async () => {
+      const child = async () => {
+        using _ = await mutex.lock({ timeoutMs: 10 });
+        return mutex.holdCount;
+      };
+      expect(await child()).toBe(2);
+      expect(mutex.holdCount).toBe(1);
+    });
+    expect(mutex.isLocked).toBe(false);
+  });
+
+  it.concurrent('keeps the caller of a fire-and-forget holder waiting', async () => {
+    const mutex = new ReentrantMutex();
+    const holder = (async () => {
+      const release = await mutex.obtain();
+      await timeout(30);
+      release();
+    })();
+    await timeout(5);
+    await expect(mutex.obtain({ timeoutMs: 10 })).rejects.toBeInstanceOf(LockTimeoutError);
+    expect(mutex.holdCount).toBe(1);
+    await holder;
+
+    const running = mutex.runExclusive(() => timeout(30));
+    await timeout(5);
+    await expect(mutex.runExclusive(() => 'entered', { timeoutMs: 10 })).rejects.toBeInstanceOf(
+      LockTimeoutError,
+    );
+    await running;
+    expect(await mutex.runExclusive(() => 'entered', { timeoutMs: 100 })).toBe('entered');
+    expect(mutex.isLocked).toBe(false);
+  });
+
+  it.concurrent('starts over with a single hold after the chain released the lock', async () => {
+    const mutex = new ReentrantMutex();
+    {
+      using _ = await mutex.lock();
+      expect(mutex.holdCount).toBe(1);
+    }
+    expect(mutex.isLocked).toBe(false);
+    {
+      using _ = await mutex.lock();
+      expect(mutex.holdCount).toBe(1);
+    }
+    expect(mutex.isLocked).toBe(false);
+  });
+
+  it.concurrent('supports explicit tokens', async () => {
+    const mutex = new ReentrantMutex();
+    const token = {};
+    const releaseOuter = await mutex.obtain({ token });
+    const releaseInner = await mutex.obtain({ token });
+    expect(mutex.holdCount).toBe(2);
+
+    await expect(mutex.obtain({ token: {}, timeoutMs: 10 })).rejects.toBeInstanceOf(
+      LockTimeoutError,
+    );
+
+    releaseInner();
+    releaseOuter();
+    expect(mutex.isLocked).toBe(false);
+  });
+
+  it.concurrent('does not reenter a lock taken by plain obtain in the same async function', async () => {
+    const mutex = new ReentrantMutex({ name: 'plain' });
+    const release = await mutex.obtain();
+    // Not a runExclusive callback: the nested call waits, and would deadlock without the timeout
+    await expect(mutex.obtain({ timeoutMs: 10 })).rejects.toThrow(new LockTimeoutError('plain', 10));
+    expect(mutex.holdCount).toBe(1);
+    release();
+    expect(mutex.isLocked).toBe(false);
+  });
+
+  it('reenters only with a token without async context tracking', async () => {
+    const warn = vi.spyOn(console, 'warn');
+    const getBuiltinModule = vi.spyOn(process, 'getBuiltinModule').mockReturnValue(undefined);
+    try {
+      const mutex = new ReentrantMutex();
+      getBuiltinModule.mockRestore();
+      expect(mutex.tracksAsyncContext).toBe(false);
+      const token = {};
+      const releaseOuter = await mutex.obtain({ token });
+      expect(await mutex.runExclusive(() => mutex.holdCount, { token })).toBe(2);
+      await expect(mutex.runExclusive(() => undefined, { timeoutMs: 10 })).rejects.toBeInstanceOf(
+        LockTimeoutError,
+      );
+      releaseOuter();
+      expect(mutex.isLocked).toBe(false);
+      expect(warn).not.toHaveBeenCalled();
+    } finally {
+      getBuiltinModule.mockRestore();
+      warn.mockRestore();
+    }
+  });
+});
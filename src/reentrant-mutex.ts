@@ -0,0 +1,203 @@
+import { createAsyncLocalStorage } from './async-context';
+import { type AcquireOptions, Mutex } from './mutex';
+
+/**
+ * Options accepted by {@link ReentrantMutex.obtain} and {@link ReentrantMutex.lock}.
+ */
+export interface ReentrantAcquireOptions extends AcquireOptions {
+  /**
+   * Identifies the owner explicitly instead of through the async context. Calls passing the same
+   * object are treated as one call chain. Required for reentrancy outside of
+   * {@link ReentrantMutex.runExclusive}, and wherever `AsyncLocalStorage` is not available.
+   */
+  token?: object;
+}
+
+/**
+ * Options accepted by the {@link ReentrantMutex} constructor.
+ */
+export interface ReentrantMutexOptions {
+  /** A name identifying the lock in errors. Defaults to `'ReentrantMutex'`. */
+  name?: string;
+}
+
+/**
+ * A mutual exclusion lock that the holder may acquire again without deadlocking on itself.
+ * Where {@link Mutex} needs a bypass flag threaded through every nested call, ReentrantMutex
+ * recognizes that the current async call chain already holds the lock: nested acquisitions
+ * only increment a hold count, and the lock is released when the outermost hold is released.
+ *
+ * The call chain is the callback passed to {@link runExclusive}, tracked with `AsyncLocalStorage`
+ * on runtimes that provide it: any acquisition made while it runs, including by tasks it spawns,
+ * shares the lock. An async function cannot mark the chain of its caller, so `obtain()` and
+ * `lock()` called outside such a callback are reentrant only through an explicit `token`; without
+ * one, nested acquisitions wait like with {@link Mutex}.
+ *
+ * @example
+ * ```typescript
+ * const mutex = new ReentrantMutex();
+ *
+ * async function transfer() {
+ *   await mutex.runExclusive(async () => {
+ *     await audit(); // takes the same lock without deadlocking
+ *   });
+ * }
+ *
+ * async function audit() {
+ *   using _ = await mutex.lock();
+ *   // ...
+ * }
+ * ```
+ */
+export class ReentrantMutex {
+  private readonly m_mutex: Mutex;
+  private readonly m_storage = createAsyncLocalStorage<object>();
+  private m_owner: object | null = null;
+  private m_holdCount = 0;
+  private m_release: (() => void) | null = null;
+
+  /**
+   * The name of the lock, as reported by {@link LockTimeoutError}.
+   */
+  public readonly name: string;
+
+  /**
+   * Initializes a new unlocked ReentrantMutex.
+   *
+   * @param options - Optional settings, such as a name used in error messages.
+   */
+  public constructor(options: ReentrantMutexOptions = {}) {
+    this.name = options.name ?? 'ReentrantMutex';
+    this.m_mutex = new Mutex({ name: this.name });
+  }
+
+  /**
+   * Whether owner tracking through the async context is available on this runtime.
+   * When false, only acquisitions passing a `token` are reentrant.
+   *
+   * @returns true if `AsyncLocalStorage` is in use, false otherwise.
+   */
+  public get tracksAsyncContext() {
+    return this.m_storage !== null;
+  }
+
+  /**
+   * Whether the mutex is currently held by some call chain.
+   *
+   * @returns true if the mutex is locked, false otherwise.
+   */
+  public get isLocked() {
+    return this.m_holdCount > 0;
+  }
+
+  /**
+   * How many times the current owner holds the lock; 0 when unlocked.
+   *
+   * @returns The number of unreleased holds of the owner.
+   */
+  public get holdCount() {
+    return this.m_holdCount;
+  }
+
+  /**
+   * The number of tasks currently waiting to acquire the lock.
+   * Nested acquisitions by the owner never wait and are not counted.
+   *
+   * @returns The count of waiting tasks in the queue.
+   */
+  public get waitingCount() {
+    return this.m_mutex.waitingCount;
+  }
+
+  /**
+   * Acquires the lock, or takes one more hold if the current call chain already owns it, then
+   * runs the callback as the owning call chain and releases the hold once it settles. Acquisitions
+   * made while the callback runs, directly or by tasks it spawns, only take more holds.
+   *
+   * @param callback - The critical section; may be async.
+   * @param options - Acquisition options, such as an explicit owner `token`, an `AbortSignal`
+   *   or a timeout to stop waiting.
+   * @returns A promise resolving to the callback's result.
+   * @throws {LockTimeoutError} If `timeoutMs` elapses before the lock is acquired.
+   * @example
+   * ```typescript
+   * const total = await mutex.runExclusive(async () => {
+   *   await refresh(); // may take the lock again
+   *   return sum();
+   * });
+   * ```
+   */
+  public async runExclusive<T>(
+    callback: () => T | PromiseLike<T>,
+    options: ReentrantAcquireOptions = {},
+  ): Promise<Awaited<T>> {
+    const release = await this.obtain(options);
+    try {
+      const owner = this.m_owner!;
+      return this.m_storage === null ? await callback() : await this.m_storage.run(owner, callback);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Acquires the lock, or takes one more hold if the current call chain already owns it,
+   * and returns a release function. Always release in a finally block; the lock is handed
+   * over once every hold of the owner has been released.
+   *
+   * **A lock taken by `obtain()` or `lock()` alone does not make later calls reentrant:** the
+   * owning call chain is a {@link runExclusive} callback, or whoever passes the owner's `token`.
+   * An async function that takes the lock this way and then calls code taking it again deadlocks
+   * on itself, exactly like with {@link Mutex}. Wrap such code in `runExclusive` instead.
+   *
+   * @param options - Acquisition options, such as an explicit owner `token`, an `AbortSignal`
+   *   or a timeout to stop waiting.
+   * @returns A promise resolving to a function that releases this hold.
+   * @throws {LockTimeoutError} If `timeoutMs` elapses before the lock is acquired.
+   */
+  public async obtain(options: ReentrantAcquireOptions = {}): Promise<() => void> {
+    const token = options.token ?? this.m_storage?.getStore();
+    if (token !== undefined && token === this.m_owner) {
+      ++this.m_holdCount;
+      return this.releaser();
+    }
+    this.m_release = await this.m_mutex.obtain(options);
+    // An owner nobody else can present: only the token or a runExclusive callback reenters
+    this.m_owner = token ?? {};
+    this.m_holdCount = 1;
+    return this.releaser();
+  }
+
+  /**
+   * Acquires the lock and returns a disposable object for use with 'using' syntax.
+   *
+   * @param options - Acquisition options, such as an explicit owner `token`, an `AbortSignal`
+   *   or a timeout to stop waiting.
+   * @returns A promise resolving to an object with [Symbol.dispose] that releases this hold.
+   * @example
+   * ```typescript
+   * {
+   *   using _ = await mutex.lock();
+   *   // Critical section, nested mutex.lock() calls do not deadlock
+   * }
+   * ```
+   */
+  public async lock(options: ReentrantAcquireOptions = {}) {
+    return {
+      [Symbol.dispose]: await this.obtain(options),
+    };
+  }
+
+  private releaser() {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      if (--this.m_holdCount > 0) return;
+      const release = this.m_release!;
+      this.m_owner = null;
+      this.m_release = null;
+      release();
+    };
+  }
+}
@@ -0,0 +1,250 @@
+import { describe, expect, it } from 'vitest';
+import { LockTimeoutError, Semaphore, limit, timeout } from '.';
+
+describe('semaphore', { timeout: 10000 }, () => {
+  it.concurrent('never exceeds the permit count', async () => {
+    const semaphore = new Semaphore(3);
+    let cntAccess = 0;
+    let maxAccess = 0;
+    const f = async () => {
+      using _ = await semaphore.lock();
+      maxAccess = Math.max(maxAccess, ++cntAccess);
+      expect(cntAccess).toBeLessThanOrEqual(3);
+      await timeout(Math.random() * 10);
+      --cntAccess;
+      if (Math.random() > 0.5) throw new Error();
+    };
+    const threads: Promise<unknown>[] = [];
+    for (let i = 0; i < 100; ++i) {
+      threads.push(f());
+    }
+    await Promise.allSettled(threads);
+    expect(cntAccess).toBe(0);
+    expect(maxAccess).toBe(3);
+    expect(semaphore.availablePermits).toBe(3);
+  });
+
+  it.concurrent('respects weighted permits', async () => {
+    const semaphore = new Semaphore(5);
+    let held = 0;
+    const f = async (weight: number) => {
+      const release = await semaphore.obtain(weight);
+      held += weight;
+      expect(held).toBeLessThanOrEqual(5);
+      await timeout(Math.random() * 10);
+      held -= weight;
+      release();
+    };
+    const threads: Promise<unknown>[] = [];
+    for (let i = 0; i < 50; ++i) {
+      threads.push(f(1 + Math.floor(Math.random() * 5)));
+    }
+    await Promise.all(threads);
+    expect(held).toBe(0);
+  });
+
+  describe('status properties', () => {
+    it('tracks available permits and waiting tasks', async () => {
+      const semaphore = new Semaphore(3);
+      expect(semaphore.permits).toBe(3);
+      expect(semaphore.availablePermits).toBe(3);
+      expect(semaphore.waitingCount).toBe(0);
+
+      const release1 = await semaphore.obtain(2);
+      expect(semaphore.availablePermits).toBe(1);
+
+      const promise2 = semaphore.obtain(2);
+      const promise3 = semaphore.obtain();
+      await Promise.resolve();
+      expect(semaphore.waitingCount).toBe(2);
+      expect(semaphore.availablePermits).toBe(1);
+
+      release1();
+      const release2 = await promise2;
+      const release3 = await promise3;
+      expect(semaphore.waitingCount).toBe(0);
+      expect(semaphore.availablePermits).toBe(0);
+
+      release2();
+      release3();
+      expect(semaphore.availablePermits).toBe(3);
+    });
+
+    it('serves waiters in FIFO order, even when a later one would fit', async () => {
+      const semaphore = new Semaphore(2);
+      const release1 = await semaphore.obtain();
+      const order: number[] = [];
+
+      const promise2 = semaphore.obtain(2).then(release => (order.push(2), release));
+      const promise3 = semaphore.obtain(1).then(release => (order.push(3), release));
+      await timeout(5);
+      expect(order).toEqual([]);
+
+      release1();
+      (await promise2)();
+      (await promise3)();
+      expect(order).toEqual([2, 3]);
+    });
+
+    it('ignores repeated release calls', async () => {
+      const semaphore = new Semaphore(2);
+      const release = await semaphore.obtain();
+      release();
+      release();
+      expect(semaphore.availablePermits).toBe(2);
+    });
+  });
+
+  describe('weight', () => {
+    it('rejects weights that are not non-negative integers', async () => {
+      const semaphore = new Semaphore(3);
+      await expect(semaphore.obtain(-1)).rejects.toThrow(RangeError);
+      await expect(semaphore.obtain(0.5)).rejects.toThrow('Weight must be a non-negative integer, got 0.5');
+      await expect(semaphore.lock(Number.NaN)).rejects.toThrow(RangeError);
+      expect(semaphore.availablePermits).toBe(3);
+    });
+
+    it('rejects a weight above the permit limit instead of blocking the queue', async () => {
+      const semaphore = new Semaphore(2, { name: 'uploads' });
+      const release1 = await semaphore.obtain();
+      await expect(semaphore.obtain(3)).rejects.toThrow('Weight 3 exceeds the 2 permits of "uploads"');
+      expect(semaphore.waitingCount).toBe(0);
+
+      const release2 = await semaphore.obtain();
+      release1();
+      release2();
+      expect(semaphore.availablePermits).toBe(2);
+    });
+  });
+
+  describe('setPermits', () => {
+    it('wakes waiters when raised', async () => {
+      const semaphore = new Semaphore(1);
+      const release1 = await semaphore.obtain();
+      const promise2 = semaphore.obtain();
+      await Promise.resolve();
+      expect(semaphore.waitingCount).toBe(1);
+
+      semaphore.setPermits(2);
+      const release2 = await promise2;
+      expect(semaphore.waitingCount).toBe(0);
+      expect(semaphore.availablePermits).toBe(0);
+
+      release1();
+      release2();
+    });
+
+    it('keeps held permits when lowered', async () => {
+      const semaphore = new Semaphore(3);
+      const release1 = await semaphore.obtain(3);
+      semaphore.setPermits(1);
+      expect(semaphore.availablePermits).toBe(0);
+
+      const promise2 = semaphore.obtain();
+      await timeout(5);
+      expect(semaphore.waitingCount).toBe(1);
+
+      release1();
+      const release2 = await promise2;
+      expect(semaphore.availablePermits).toBe(0);
+      release2();
+      expect(semaphore.availablePermits).toBe(1);
+    });
+
+    it('rejects queued waiters that no longer fit when lowered', async () => {
+      const semaphore = new Semaphore(3, { name: 'uploads' });
+      const release1 = await semaphore.obtain(3);
+      const heavy = semaphore.obtain(3);
+      const light = semaphore.obtain(1);
+      await Promise.resolve();
+      expect(semaphore.waitingCount).toBe(2);
+
+      semaphore.setPermits(2);
+      await expect(heavy).rejects.toThrow('Weight 3 exceeds the 2 permits of "uploads"');
+      expect(semaphore.waitingCount).toBe(1);
+
+      release1();
+      const release2 = await light;
+      expect(semaphore.availablePermits).toBe(1);
+      release2();
+    });
+
+    it('rejects invalid counts', () => {
+      expect(() => new Semaphore(-1)).toThrow(RangeError);
+      expect(() => new Semaphore(1).setPermits(Number.NaN)).toThrow(RangeError);
+      expect(() => new Semaphore(1.5)).toThrow(RangeError);
+      expect(new Semaphore(Infinity).availablePermits).toBe(Infinity);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('removes an aborted waiter and unblocks those behind it', async () => {
+      const semaphore = new Semaphore(2);
+      const release1 = await semaphore.obtain();
+      const controller = new AbortController();
+
+      const aborted = semaphore.obtain(2, { signal: controller.signal });
+      const promise3 = semaphore.obtain(1);
+      await Promise.resolve();
+      expect(semaphore.waitingCount).toBe(2);
+
+      controller.abort();
+      await expect(aborted).rejects.toBe(controller.signal.reason);
+      const release3 = await promise3;
+      expect(semaphore.waitingCount).toBe(0);
+      expect(semaphore.availablePermits).toBe(0);
+
+      release1();
+      release3();
+    });
+
+    it('rejects with LockTimeoutError after timeoutMs', async () => {
+      const semaphore = new Semaphore(1, { name: 'uploads' });
+      const release = await semaphore.obtain();
+
+      await expect(semaphore.lock(1, { timeoutMs: 10 })).rejects.toBeInstanceOf(LockTimeoutError);
+      expect(semaphore.waitingCount).toBe(0);
+      expect(semaphore.availablePermits).toBe(0);
+
+      release();
+      expect(semaphore.availablePermits).toBe(1);
+    });
+  });
+});
+
+describe('limit', { timeout: 10000 }, () => {
+  it.concurrent('runs at most n tasks at once and returns their results', async () => {
+    const run = limit(2);
+    let running = 0;
+    let maxRunning = 0;
+    const results = await Promise.all(
+      Array.from({ length: 20 }, (_v, i) =>
+        run(async () => {
+          maxRunning = Math.max(maxRunning, ++running);
+          await timeout(Math.random() * 5);
+          --running;
+          return i;
+        }),
+      ),
+    );
+    expect(maxRunning).toBe(2);
+    expect(results).toEqual(Array.from({ length: 20 }, (_v, i) => i));
+  });
+
+  it.concurrent('requires at least one slot, as an integer', () => {
+    expect(() => limit(0)).toThrow('Concurrency must be a positive integer, got 0');
+    expect(() => limit(1.5)).toThrow(RangeError);
+    expect(() => limit(Number.NaN)).toThrow(RangeError);
+    expect(limit(Infinity)).toBeTypeOf('function');
+  });
+
+  it.concurrent('frees the slot when a task throws', async () => {
+    const run = limit(1);
+    await expect(
+      run(() => {
+        throw new Error('boom');
+      }),
+    ).rejects.toThrow('boom');
+    expect(await run(() => 42)).toBe(42);
+  });
+});
@@ -0,0 +1,251 @@
+import { cancellation, race } from './cancellation';
+import { LockTimeoutError } from './errors';
+import type { AcquireOptions } from './mutex';
+
+interface SemaphoreWaiter {
+  readonly weight: number;
+  granted: boolean;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Options accepted by the {@link Semaphore} constructor.
+ */
+export interface SemaphoreOptions {
+  /** A name identifying the semaphore in errors. Defaults to `'Semaphore'`. */
+  name?: string;
+}
+
+function assertCount(value: number, what: string) {
+  if (!(Number.isInteger(value) || value === Infinity) || value < 0) {
+    throw new RangeError(`${what} must be a non-negative integer, got ${value}`);
+  }
+}
+
+/**
+ * A counting semaphore for limiting how many tasks run at once.
+ * Where {@link Mutex} admits a single holder, Semaphore hands out a fixed number of permits,
+ * making it the right tool for capping concurrent requests, connections, or CPU-heavy jobs
+ * without hand-rolling batches around `Promise.all`.
+ *
+ * Tasks may take several permits at once (a weight), and waiters are served in FIFO order:
+ * a heavy waiter at the head of the queue is not overtaken by lighter ones behind it.
+ *
+ * @example
+ * ```typescript
+ * const semaphore = new Semaphore(3);
+ * await Promise.all(
+ *   urls.map(async url => {
+ *     using _ = await semaphore.lock();
+ *     return fetch(url); // at most 3 requests in flight
+ *   }),
+ * );
+ * ```
+ */
+export class Semaphore {
+  private m_permits: number;
+  private m_inUse = 0;
+  private readonly m_waiters: SemaphoreWaiter[] = [];
+
+  /**
+   * The name of the semaphore, as reported by {@link LockTimeoutError}.
+   */
+  public readonly name: string;
+
+  /**
+   * Initializes a new Semaphore with all permits available.
+   *
+   * @param permits - The number of permits that can be held at the same time; Infinity for no limit.
+   * @param options - Optional settings, such as a name used in error messages.
+   * @throws {RangeError} If permits is not a non-negative integer or Infinity.
+   */
+  public constructor(permits: number, options: SemaphoreOptions = {}) {
+    assertCount(permits, 'Permits');
+    this.m_permits = permits;
+    this.name = options.name ?? 'Semaphore';
+  }
+
+  /**
+   * The total number of permits, as set by the constructor or {@link setPermits}.
+   *
+   * @returns The permit limit.
+   */
+  public get permits() {
+    return this.m_permits;
+  }
+
+  /**
+   * The number of permits that can be obtained right now.
+   * Zero while held permits exceed a limit that was lowered through {@link setPermits}.
+   *
+   * @returns The count of free permits.
+   *
+   * @example
+   * ```typescript
+   * const semaphore = new Semaphore(3);
+   * const release = await semaphore.obtain(2);
+   * console.log(semaphore.availablePermits); // 1
+   * release();
+   * console.log(semaphore.availablePermits); // 3
+   * ```
+   */
+  public get availablePermits() {
+    return Math.max(0, this.m_permits - this.m_inUse);
+  }
+
+  /**
+   * The number of tasks currently waiting for permits.
+   * Does not include tasks that currently hold permits.
+   *
+   * @returns The count of waiting tasks in the queue.
+   */
+  public get waitingCount() {
+    return this.m_waiters.length;
+  }
+
+  /**
+   * Changes the number of permits at runtime.
+   * Raising the limit wakes queued tasks that now fit. Lowering it never revokes held permits:
+   * new tasks simply wait until enough of them are released. Queued tasks asking for more than
+   * the new limit could never be granted, so they are rejected with a `RangeError`, as
+   * {@link obtain} does with such weights, instead of holding up the tasks behind them.
+   *
+   * @param permits - The new permit limit.
+   * @throws {RangeError} If permits is not a non-negative integer or Infinity.
+   */
+  public setPermits(permits: number) {
+    assertCount(permits, 'Permits');
+    this.m_permits = permits;
+    for (let i = this.m_waiters.length - 1; i >= 0; --i) {
+      const waiter = this.m_waiters[i];
+      if (waiter.weight <= permits) continue;
+      this.m_waiters.splice(i, 1);
+      waiter.reject(this.tooHeavy(waiter.weight));
+    }
+    this.dispatch();
+  }
+
+  /**
+   * Acquires the given number of permits, waiting if necessary, and returns a release function.
+   * Always release in a finally block; the release function returns every permit taken
+   * and does nothing when called again.
+   *
+   * @param weight - The number of permits to take, at most {@link permits}. Defaults to 1.
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise resolving to a function that releases the permits.
+   * @throws {RangeError} If weight is not a non-negative integer, or exceeds the permit limit.
+   * @throws {LockTimeoutError} If `timeoutMs` elapses before the permits are acquired.
+   */
+  public async obtain(weight = 1, options: AcquireOptions = {}): Promise<() => void> {
+    assertCount(weight, 'Weight');
+    // Could never be granted, and would hold up everyone queued behind it
+    if (weight > this.m_permits) throw this.tooHeavy(weight);
+    const { signal, timeoutMs } = options;
+    signal?.throwIfAborted();
+    if (this.m_waiters.length === 0 && this.m_inUse + weight <= this.m_permits) {
+      this.m_inUse += weight;
+      return this.releaser(weight);
+    }
+    let waiter!: SemaphoreWaiter;
+    const granted = new Promise<void>(
+      (resolve, reject) => (waiter = { weight, granted: false, resolve, reject }),
+    );
+    this.m_waiters.push(waiter);
+    const cancel = cancellation(signal, timeoutMs, ms => new LockTimeoutError(this.name, ms));
+    try {
+      await race(granted, cancel);
+    } catch (error) {
+      const index = this.m_waiters.indexOf(waiter);
+      if (waiter.granted) {
+        // Granted while the rejection was in flight: give the permits back
+        this.releasePermits(weight);
+      } else if (index !== -1) {
+        this.m_waiters.splice(index, 1);
+        // A heavy waiter leaving the head may unblock lighter ones behind it
+        this.dispatch();
+      }
+      throw error;
+    } finally {
+      cancel?.dispose();
+    }
+    return this.releaser(weight);
+  }
+
+  /**
+   * Acquires permits and returns a disposable object for use with 'using' syntax.
+   * The permits are automatically released when the scope exits, even on errors.
+   *
+   * @param weight - The number of permits to take, at most {@link permits}. Defaults to 1.
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise resolving to an object with [Symbol.dispose] that releases the permits.
+   * @throws {RangeError} If weight is not a non-negative integer, or exceeds the permit limit.
+   * @example
+   * ```typescript
+   * {
+   *   using _ = await semaphore.lock(2);
+   *   // Holds 2 permits, auto-released on exit
+   * }
+   * ```
+   */
+  public async lock(weight = 1, options: AcquireOptions = {}) {
+    return {
+      [Symbol.dispose]: await this.obtain(weight, options),
+    };
+  }
+
+  private releaser(weight: number) {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.releasePermits(weight);
+    };
+  }
+
+  private tooHeavy(weight: number) {
+    return new RangeError(`Weight ${weight} exceeds the ${this.m_permits} permits of "${this.name}"`);
+  }
+
+  private releasePermits(weight: number) {
+    this.m_inUse -= weight;
+    this.dispatch();
+  }
+
+  private dispatch() {
+    while (this.m_waiters.length && this.m_inUse + this.m_waiters[0].weight <= this.m_permits) {
+      const waiter = this.m_waiters.shift()!;
+      this.m_inUse += waiter.weight;
+      waiter.granted = true;
+      waiter.resolve();
+    }
+  }
+}
+
+/**
+ * Creates a p-limit style runner that allows at most `concurrency` tasks to run at once.
+ * Each task is started only when a slot is free, so work that is queued beyond the limit
+ * does not begin until earlier tasks settle. Built on {@link Semaphore}.
+ *
+ * @param concurrency - The maximum number of tasks running at the same time, at least 1.
+ * @returns A function that schedules a task and resolves with its result.
+ * @throws {RangeError} If concurrency is not a positive integer or Infinity.
+ *
+ * @example
+ * ```typescript
+ * const run = limit(2);
+ * const pages = await Promise.all(urls.map(url => run(() => fetch(url))));
+ * // Never more than 2 fetches in flight
+ * ```
+ */
+export function limit(concurrency: number) {
+  // With no slot at all, every task would wait forever
+  if (!(Number.isInteger(concurrency) || concurrency === Infinity) || concurrency < 1) {
+    throw new RangeError(`Concurrency must be a positive integer, got ${concurrency}`);
+  }
+  const semaphore = new Semaphore(concurrency);
+  return async <R>(task: () => R | PromiseLike<R>): Promise<Awaited<R>> => {
+    using _ = await semaphore.lock();
+    return await task();
+  };
+}
@@ -0,0 +1,282 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MessageChannel, Worker } from 'node:worker_threads';
+import ts from 'typescript';
+import { describe, expect, it } from 'vitest';
+import { LockReleasedError, LockTimeoutError, SharedMutex, SharedMutexRW, timeout } from '.';
+
+const WORKER_SOURCE = `
+import { workerData } from 'node:worker_threads';
+import { SharedMutex } from './shared-mutex.mjs';
+
+const mutex = SharedMutex.from(workerData.mutex);
+const counter = new Int32Array(workerData.counter);
+for (let i = 0; i < workerData.rounds; ++i) {
+  const release = await mutex.obtain();
+  // Loses increments unless the lock keeps the other workers out
+  const value = counter[0];
+  await new Promise(resolve => setTimeout(resolve, Math.random() * 2));
+  counter[0] = value + 1;
+  release();
+}
+`;
+
+const ABANDONING_WORKER_SOURCE = `
+import { workerData } from 'node:worker_threads';
+import { SharedMutex } from './shared-mutex.mjs';
+
+const mutex = SharedMutex.from(workerData.mutex);
+const abandoned = new Int32Array(workerData.abandoned);
+await mutex.obtain({ timeoutMs: 20 }).catch(() => Atomics.add(abandoned, 0, 1));
+const controller = new AbortController();
+setTimeout(() => controller.abort(), 20);
+await mutex.obtain({ signal: controller.signal }).catch(() => Atomics.add(abandoned, 0, 1));
+`;
+
+/**
+ * Workers load plain JavaScript: compiles SharedMutex and what it imports into a temporary directory.
+ */
+function workerDirectory() {
+  const dir = mkdtempSync(join(tmpdir(), 'shared-mutex-'));
+  for (const name of ['shared-mutex', 'cancellation', 'errors']) {
+    const source = readFileSync(new URL(`./${name}.ts`, import.meta.url), 'utf8');
+    const { outputText } = ts.transpileModule(source, {
+      compilerOptions: {
+        module: ts.ModuleKind.ESNext,
+        target: ts.ScriptTarget.ES2022,
+        verbatimModuleSyntax: true,
+      },
+    });
+    writeFileSync(join(dir, `${name}.mjs`), outputText.replace(/from '\.\/([\w-]+)'/g, "from './$1.mjs'"));
+  }
+  writeFileSync(join(dir, 'worker.mjs'), WORKER_SOURCE);
+  writeFileSync(join(dir, 'abandoning-worker.mjs'), ABANDONING_WORKER_SOURCE);
+  return dir;
+}
+
+/**
+ * Resolves with the exit code of the worker, or terminates it and resolves with null if it is
+ * still running after `deadlineMs`.
+ */
+function exitOf(worker: Worker, deadlineMs = 5000) {
+  return new Promise<number | null>((resolve, reject) => {
+    const deadline = setTimeout(() => void worker.terminate().then(() => resolve(null)), deadlineMs);
+    worker.once('error', reject);
+    worker.once('exit', code => {
+      clearTimeout(deadline);
+      resolve(code);
+    });
+  });
+}
+
+function post<T>(value: T) {
+  const { port1, port2 } = new MessageChannel();
+  return new Promise<T>(resolve => {
+    port2.once('message', message => {
+      port1.close();
+      resolve(message as T);
+    });
+    port1.postMessage(value);
+  });
+}
+
+describe('shared-mutex', { timeout: 10000 }, () => {
+  it.concurrent('never allows accessors interfere across instances', async () => {
+    const mutex = new SharedMutex();
+    const other = SharedMutex.from(structuredClone(mutex));
+    let cntAccess = 0;
+    const f = async (lock: SharedMutex) => {
+      using _ = await lock.lock();
+      expect(++cntAccess).toBe(1);
+      await timeout(Math.random() * 5);
+      --cntAccess;
+    };
+    await Promise.all(Array.from({ length: 40 }, (_, i) => f(i % 2 ? mutex : other)));
+    expect(cntAccess).toBe(0);
+    expect(mutex.isLocked).toBe(false);
+    expect(other.waitingCount).toBe(0);
+  });
+
+  it.concurrent('locks across worker threads', async () => {
+    const dir = workerDirectory();
+    try {
+      const mutex = new SharedMutex({ name: 'counter' });
+      const counter = new Int32Array(new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT));
+      const workerData = { mutex, counter: counter.buffer, rounds: 20 };
+      const workers = Array.from({ length: 3 }, () => new Worker(join(dir, 'worker.mjs'), { workerData }));
+      const exitCodes = await Promise.all(workers.map(worker => exitOf(worker)));
+      expect(exitCodes).toEqual([0, 0, 0]);
+      // Every worker finished its rounds, none exited while waiting
+      expect(counter[0]).toBe(60);
+      expect(mutex.isLocked).toBe(false);
+      expect(mutex.waitingCount).toBe(0);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it.concurrent('lets a worker exit after its waits were abandoned', async () => {
+    const dir = workerDirectory();
+    const mutex = new SharedMutex();
+    const release = await mutex.obtain();
+    try {
+      const abandoned = new Int32Array(new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT));
+      const workerData = { mutex, abandoned: abandoned.buffer };
+      const worker = new Worker(join(dir, 'abandoning-worker.mjs'), { workerData });
+      // Killed at the deadline if a timed-out or aborted wait still keeps it alive
+      expect(await exitOf(worker, 2000)).toBe(0);
+      expect(abandoned[0]).toBe(2);
+      expect(mutex.waitingCount).toBe(0);
+    } finally {
+      release();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it.concurrent('shares its state through postMessage', async () => {
+    const mutex = new SharedMutex({ name: 'ledger' });
+    const { mutex: posted } = await post({ mutex });
+    const received = SharedMutex.from(posted);
+    expect(received.name).toBe('ledger');
+    expect(received.buffer).toBeInstanceOf(SharedArrayBuffer);
+
+    const release = await mutex.obtain();
+    expect(received.isLocked).toBe(true);
+    expect(received.tryObtain()).toBeNull();
+    const waiting = received.obtain();
+    await timeout(5);
+    expect(mutex.waitingCount).toBe(1);
+
+    release();
+    (await waiting)();
+    expect(mutex.isLocked).toBe(false);
+  });
+
+  it.concurrent('supports bypass, timeouts and signals', async () => {
+    const mutex = new SharedMutex({ name: 'shared' });
+    const release = await mutex.obtain();
+    const bypass = await mutex.obtain(true);
+    bypass();
+    expect(mutex.isLocked).toBe(true);
+
+    await expect(mutex.obtain({ timeoutMs: 10 })).rejects.toThrow(LockTimeoutError);
+    const controller = new AbortController();
+    const aborted = mutex.obtain({ signal: controller.signal });
+    controller.abort(new Error('stop'));
+    await expect(aborted).rejects.toThrow('stop');
+    expect(mutex.waitingCount).toBe(0);
+
+    release();
+    release();
+    expect(mutex.isLocked).toBe(false);
+    const tryRelease = mutex.tryObtain()!;
+    expect(tryRelease).not.toBeNull();
+    tryRelease();
+  });
+
+  it.concurrent('throws on repeated release in strict mode', async () => {
+    const mutex = new SharedMutex({ strictRelease: true });
+    const release = await mutex.obtain();
+    release();
+    expect(() => release()).toThrow(LockReleasedError);
+  });
+
+  it('falls back to polling without Atomics.waitAsync', async () => {
+    const atomics = Atomics as { waitAsync?: unknown };
+    const waitAsync = atomics.waitAsync;
+    delete atomics.waitAsync;
+    try {
+      const mutex = new SharedMutex({ pollIntervalMs: 1 });
+      const release = await mutex.obtain();
+      const waiting = mutex.obtain();
+      await timeout(10);
+      release();
+      (await waiting)();
+      expect(mutex.isLocked).toBe(false);
+    } finally {
+      atomics.waitAsync = waitAsync;
+    }
+  });
+
+  it.concurrent('rejects buffers too small for the state', () => {
+    expect(() => new SharedMutexRW({ buffer: new SharedArrayBuffer(8) })).toThrow(RangeError);
+  });
+});
+
+describe('shared-mutex-rw', { timeout: 10000 }, () => {
+  it.concurrent('never allows readers and writers interfere across instances', async () => {
+    const mutex = new SharedMutexRW();
+    const other = SharedMutexRW.from({ buffer: mutex.buffer });
+    let readers = 0;
+    let writers = 0;
+    const read = async (lock: SharedMutexRW) => {
+      using _ = await lock.lockRead();
+      ++readers;
+      expect(writers).toBe(0);
+      await timeout(Math.random() * 5);
+      --readers;
+    };
+    const write = async (lock: SharedMutexRW) => {
+      using _ = await lock.lockWrite();
+      expect(++writers).toBe(1);
+      expect(readers).toBe(0);
+      await timeout(Math.random() * 5);
+      --writers;
+    };
+    await Promise.all(
+      Array.from({ length: 40 }, (_, i) => (i % 3 ? read : write)(i % 2 ? mutex : other)),
+    );
+    expect(mutex.activeReadCount).toBe(0);
+    expect(mutex.isWriteLocked).toBe(false);
+  });
+
+  it.concurrent('keeps new readers out while a writer waits', async () => {
+    const mutex = new SharedMutexRW();
+    const releaseRead = await mutex.obtainRead();
+    const write = mutex.obtainWrite();
+    await timeout(1);
+    expect(mutex.writeWaitingCount).toBe(1);
+    expect(mutex.tryObtainRead()).toBeNull();
+    const read = mutex.obtainRead();
+    await timeout(1);
+    expect(mutex.readWaitingCount).toBe(1);
+
+    releaseRead();
+    const releaseWrite = await write;
+    expect(mutex.isWriteLocked).toBe(true);
+    releaseWrite();
+    (await read)();
+    expect(mutex.activeReadCount).toBe(0);
+  });
+
+  it.concurrent('lets readers in once a waiting writer gives up', async () => {
+    const mutex = new SharedMutexRW();
+    const releaseRead = await mutex.obtainRead();
+    const write = mutex.obtainWrite({ timeoutMs: 20 });
+    await timeout(1);
+    const read = mutex.obtainRead();
+
+    await expect(write).rejects.toThrow(LockTimeoutError);
+    const releaseSecond = await read;
+    expect(mutex.activeReadCount).toBe(2);
+    releaseSecond();
+    releaseRead();
+  });
+
+  it.concurrent('downgrades a write lock to a read lock', async () => {
+    const mutex = new SharedMutexRW({ strictRelease: true });
+    const lock = await mutex.lockWrite();
+    const read = mutex.obtainRead();
+    lock.downgrade();
+    const releaseRead = await read;
+    expect(mutex.activeReadCount).toBe(2);
+    expect(mutex.tryObtainWrite()).toBeNull();
+
+    releaseRead();
+    lock[Symbol.dispose]();
+    expect(() => lock[Symbol.dispose]()).toThrow(LockReleasedError);
+    expect(mutex.isReadLocked).toBe(false);
+    expect(() => lock.downgrade()).toThrow();
+  });
+});
@@ -0,0 +1,490 @@
+import { type Cancellation, cancellation, race } from './cancellation';
+import { LockReleasedError, LockTimeoutError } from './errors';
+import type { AcquireOptions, MutexAcquireOptions, WriteLockHandle } from './mutex';
+
+// Layout of the shared state, one Int32 slot each
+const STATE = 0; // SharedMutex: 0 free, 1 locked. SharedMutexRW: 0 free, -1 writing, n > 0 readers
+const WAITERS = 1; // SharedMutex waiters, SharedMutexRW readers waiting
+const WRITE_WAITERS = 2; // SharedMutexRW only
+
+function releaseStub() {
+  return;
+}
+
+/**
+ * Options accepted by the {@link SharedMutex} and {@link SharedMutexRW} constructors.
+ */
+export interface SharedMutexOptions {
+  /** A name identifying the lock in errors. Defaults to the class name. */
+  name?: string;
+  /**
+   * The shared memory of an existing lock, e.g. received from another worker, to attach to it.
+   * A new, unlocked state is allocated when omitted.
+   */
+  buffer?: SharedArrayBuffer;
+  /**
+   * How often to re-check a held lock, in milliseconds, on runtimes without `Atomics.waitAsync`.
+   * Defaults to 5.
+   */
+  pollIntervalMs?: number;
+  /** Makes repeated releases throw, see {@link MutexOptions.strictRelease}. */
+  strictRelease?: boolean;
+}
+
+/**
+ * What survives posting a shared lock to a worker: pass it to `from()` on the receiving side.
+ */
+export interface SharedLockData {
+  readonly buffer: SharedArrayBuffer;
+  readonly name?: string;
+}
+
+/**
+ * Waits until the slot no longer holds the expected value, or until it is notified, unless the
+ * cancellation fires first. Spurious wakeups are fine: callers re-check the state in a loop.
+ */
+function waitChange(
+  state: Int32Array,
+  index: number,
+  expected: number,
+  pollIntervalMs: number,
+  cancel: Cancellation | null,
+) {
+  // Looked up on every call: ES2024, not in every runtime
+  const { waitAsync } = Atomics as {
+    waitAsync?: (
+      typedArray: Int32Array,
+      index: number,
+      value: number,
+    ) => { async: false; value: string } | { async: true; value: Promise<string> };
+  };
+  if (waitAsync !== undefined) {
+    const result = waitAsync(state, index, expected);
+    if (!result.async) return Promise.resolve();
+    // A pending waitAsync does not keep the event loop alive: a worker would exit mid-wait.
+    // An abandoned wait stays pending, so the timer goes as soon as either side settles
+    const keepAlive = setTimeout(releaseStub, 2147483647);
+    return race(result.value, cancel).finally(() => clearTimeout(keepAlive));
+  }
+  return race(new Promise<void>(resolve => setTimeout(resolve, pollIntervalMs)), cancel);
+}
+
+/**
+ * Allocates the shared state of a lock, or wraps the given buffer after checking its size.
+ */
+function sharedState(buffer: SharedArrayBuffer | undefined, slots: number) {
+  const byteLength = slots * Int32Array.BYTES_PER_ELEMENT;
+  if (buffer === undefined) return new Int32Array(new SharedArrayBuffer(byteLength));
+  if (buffer.byteLength < byteLength) throw new RangeError(`Buffer must hold at least ${byteLength} bytes`);
+  return new Int32Array(buffer, 0, slots);
+}
+
+/**
+ * A mutual exclusion lock shared between workers. Where {@link Mutex} only works inside one
+ * isolate, SharedMutex keeps its state in a `SharedArrayBuffer`, so the main thread and any
+ * number of `worker_threads` or web workers can lock the same critical section.
+ * Waiting is non-blocking, through `Atomics.waitAsync`, or polling where that is not available.
+ *
+ * The API matches {@link Mutex}, so call sites can switch over. Unlike {@link Mutex}, waiters
+ * are not served in strict arrival order: whoever wakes first after a release takes the lock.
+ *
+ * @example
+ * ```typescript
+ * // main.ts
+ * const mutex = new SharedMutex({ name: 'ledger' });
+ * worker.postMessage({ mutex });
+ *
+ * // worker.ts
+ * parentPort.on('message', async data => {
+ *   const mutex = SharedMutex.from(data.mutex);
+ *   using _ = await mutex.lock();
+ *   // Critical section, exclusive across threads
+ * });
+ * ```
+ */
+export class SharedMutex {
+  private readonly m_state: Int32Array;
+  private readonly m_pollIntervalMs: number;
+
+  /**
+   * The name of the lock, as reported by {@link LockTimeoutError}.
+   */
+  public readonly name: string;
+
+  /**
+   * Whether a repeated release throws {@link LockReleasedError} instead of doing nothing.
+   */
+  public readonly strictRelease: boolean;
+
+  /**
+   * The shared memory holding the lock state. An own property, so posting the lock itself
+   * to a worker shares it as well.
+   */
+  public readonly buffer: SharedArrayBuffer;
+
+  /**
+   * Initializes a new unlocked SharedMutex, or attaches to the state of an existing one.
+   *
+   * @param options - Optional settings, such as a name used in error messages or a buffer to attach to.
+   * @throws {RangeError} If the given buffer is too small.
+   */
+  public constructor(options: SharedMutexOptions = {}) {
+    this.m_state = sharedState(options.buffer, 2);
+    this.buffer = this.m_state.buffer as SharedArrayBuffer;
+    this.m_pollIntervalMs = options.pollIntervalMs ?? 5;
+    this.name = options.name ?? 'SharedMutex';
+    this.strictRelease = options.strictRelease ?? false;
+  }
+
+  /**
+   * Attaches to a SharedMutex received through `postMessage`, which delivers a plain object.
+   *
+   * @param data - The posted mutex, or any object carrying its buffer.
+   * @param options - Settings for this side, such as the polling interval.
+   * @returns A SharedMutex operating on the same lock.
+   */
+  public static from(data: SharedLockData, options: Omit<SharedMutexOptions, 'buffer'> = {}) {
+    return new SharedMutex({ name: data.name, ...options, buffer: data.buffer });
+  }
+
+  /**
+   * The number of tasks currently waiting to acquire the lock, across all workers.
+   *
+   * @returns The count of waiting tasks.
+   */
+  public get waitingCount() {
+    return Atomics.load(this.m_state, WAITERS);
+  }
+
+  /**
+   * Whether the mutex is currently held by any worker.
+   *
+   * @returns true if the mutex is locked, false otherwise.
+   */
+  public get isLocked() {
+    return Atomics.load(this.m_state, STATE) !== 0;
+  }
+
+  /**
+   * Acquires the lock, waiting if necessary, and returns a release function.
+   * Same as {@link Mutex.obtain}, across workers.
+   *
+   * @param options - Either the bypass flag, or acquisition options. Defaults to false.
+   * @returns A promise resolving to a function that releases the lock.
+   * @throws {LockTimeoutError} If `timeoutMs` elapses before the lock is acquired.
+   */
+  public async obtain(options: boolean | MutexAcquireOptions = false): Promise<() => void> {
+    const {
+      bypass = false,
+      signal,
+      timeoutMs,
+    } = typeof options === 'boolean' ? { bypass: options } : options;
+    if (bypass) return releaseStub;
+    signal?.throwIfAborted();
+    if (this.tryLock()) return this.releaser();
+    Atomics.add(this.m_state, WAITERS, 1);
+    const cancel = cancellation(signal, timeoutMs, ms => new LockTimeoutError(this.name, ms));
+    try {
+      while (!this.tryLock()) {
+        await waitChange(this.m_state, STATE, 1, this.m_pollIntervalMs, cancel);
+      }
+    } finally {
+      Atomics.sub(this.m_state, WAITERS, 1);
+      cancel?.dispose();
+    }
+    return this.releaser();
+  }
+
+  /**
+   * Acquires the lock only if it is free right now and nobody is waiting for it.
+   *
+   * @returns A function that releases the lock, or null if the lock is not available.
+   */
+  public tryObtain(): (() => void) | null {
+    if (Atomics.load(this.m_state, WAITERS) || !this.tryLock()) return null;
+    return this.releaser();
+  }
+
+  /**
+   * Acquires the lock and returns a disposable object for use with 'using' syntax.
+   *
+   * @param options - Either the bypass flag, or acquisition options. Defaults to false.
+   * @returns A promise resolving to an object with [Symbol.dispose] that releases the lock.
+   * @example
+   * ```typescript
+   * {
+   *   using _ = await mutex.lock();
+   *   // Critical section, auto-released on exit
+   * }
+   * ```
+   */
+  public async lock(options: boolean | MutexAcquireOptions = false) {
+    return {
+      [Symbol.dispose]: await this.obtain(options),
+    };
+  }
+
+  private tryLock() {
+    return Atomics.compareExchange(this.m_state, STATE, 0, 1) === 0;
+  }
+
+  private releaser() {
+    let released = false;
+    return () => {
+      if (released) return this.repeatedRelease();
+      released = true;
+      Atomics.store(this.m_state, STATE, 0);
+      // Waiters that gave up may still be parked, so waking a single one could pick a stale one
+      Atomics.notify(this.m_state, STATE);
+    };
+  }
+
+  private repeatedRelease() {
+    if (this.strictRelease) throw new LockReleasedError(this.name);
+  }
+}
+
+/**
+ * A read-write lock shared between workers, the cross-isolate counterpart of {@link MutexRW}.
+ * State lives in a `SharedArrayBuffer`; any number of readers may hold the lock at once,
+ * while a writer holds it alone. Queued writers keep new readers out, as with the default
+ * `'write-preferring'` policy of {@link MutexRW}.
+ *
+ * @example
+ * ```typescript
+ * const config = new SharedMutexRW({ name: 'config' });
+ * worker.postMessage({ config });
+ * // in the worker: const config = SharedMutexRW.from(data.config);
+ *
+ * using _ = await config.lockRead();
+ * ```
+ */
+export class SharedMutexRW {
+  private readonly m_state: Int32Array;
+  private readonly m_pollIntervalMs: number;
+
+  /**
+   * The name of the lock, as reported by {@link LockTimeoutError}.
+   */
+  public readonly name: string;
+
+  /**
+   * Whether a repeated release throws {@link LockReleasedError} instead of doing nothing.
+   */
+  public readonly strictRelease: boolean;
+
+  /**
+   * The shared memory holding the lock state. An own property, so posting the lock itself
+   * to a worker shares it as well.
+   */
+  public readonly buffer: SharedArrayBuffer;
+
+  /**
+   * Initializes a new unlocked SharedMutexRW, or attaches to the state of an existing one.
+   *
+   * @param options - Optional settings, such as a name used in error messages or a buffer to attach to.
+   * @throws {RangeError} If the given buffer is too small.
+   */
+  public constructor(options: SharedMutexOptions = {}) {
+    this.m_state = sharedState(options.buffer, 3);
+    this.buffer = this.m_state.buffer as SharedArrayBuffer;
+    this.m_pollIntervalMs = options.pollIntervalMs ?? 5;
+    this.name = options.name ?? 'SharedMutexRW';
+    this.strictRelease = options.strictRelease ?? false;
+  }
+
+  /**
+   * Attaches to a SharedMutexRW received through `postMessage`, which delivers a plain object.
+   *
+   * @param data - The posted lock, or any object carrying its buffer.
+   * @param options - Settings for this side, such as the polling interval.
+   * @returns A SharedMutexRW operating on the same lock.
+   */
+  public static from(data: SharedLockData, options: Omit<SharedMutexOptions, 'buffer'> = {}) {
+    return new SharedMutexRW({ name: data.name, ...options, buffer: data.buffer });
+  }
+
+  /**
+   * The number of tasks waiting for a read lock, across all workers.
+   *
+   * @returns The count of waiting readers.
+   */
+  public get readWaitingCount() {
+    return Atomics.load(this.m_state, WAITERS);
+  }
+
+  /**
+   * The number of tasks waiting for the write lock, across all workers.
+   *
+   * @returns The count of waiting writers.
+   */
+  public get writeWaitingCount() {
+    return Atomics.load(this.m_state, WRITE_WAITERS);
+  }
+
+  /**
+   * The number of read locks currently held, across all workers.
+   *
+   * @returns The count of active readers.
+   */
+  public get activeReadCount() {
+    return Math.max(0, Atomics.load(this.m_state, STATE));
+  }
+
+  /**
+   * Whether any read locks are currently held.
+   *
+   * @returns true if read locks are held, false otherwise.
+   */
+  public get isReadLocked() {
+    return Atomics.load(this.m_state, STATE) > 0;
+  }
+
+  /**
+   * Whether the write lock is currently held.
+   *
+   * @returns true if the write lock is held, false otherwise.
+   */
+  public get isWriteLocked() {
+    return Atomics.load(this.m_state, STATE) === -1;
+  }
+
+  /**
+   * Acquires a read lock, sharing access with other readers. Same as {@link MutexRW.obtainRead}.
+   *
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise resolving to a function that releases the read lock.
+   * @throws {LockTimeoutError} If `timeoutMs` elapses before the lock is acquired.
+   */
+  public async obtainRead(options: AcquireOptions = {}): Promise<() => void> {
+    await this.acquire(WAITERS, () => this.tryLockRead(), options);
+    return this.releaser(() => this.unlockRead());
+  }
+
+  /**
+   * Acquires a read lock only if it can be granted right now:
+   * no writer holds the lock or waits for it.
+   *
+   * @returns A function that releases the read lock, or null if it is not available.
+   */
+  public tryObtainRead(): (() => void) | null {
+    return this.tryLockRead() ? this.releaser(() => this.unlockRead()) : null;
+  }
+
+  /**
+   * Acquires a read lock and returns a disposable object for 'using' syntax.
+   *
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise resolving to an object with [Symbol.dispose] that releases the read lock.
+   */
+  public async lockRead(options: AcquireOptions = {}) {
+    return {
+      [Symbol.dispose]: await this.obtainRead(options),
+    };
+  }
+
+  /**
+   * Acquires the write lock, ensuring exclusive access across workers.
+   * Same as {@link MutexRW.obtainWrite}.
+   *
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise resolving to a function that releases the write lock.
+   * @throws {LockTimeoutError} If `timeoutMs` elapses before the lock is acquired.
+   */
+  public async obtainWrite(options: AcquireOptions = {}): Promise<() => void> {
+    await this.acquire(WRITE_WAITERS, () => this.tryLockWrite(), options);
+    return this.releaser(() => this.unlock());
+  }
+
+  /**
+   * Acquires the write lock only if nobody holds the lock or waits for the write lock.
+   *
+   * @returns A function that releases the write lock, or null if it is not available.
+   */
+  public tryObtainWrite(): (() => void) | null {
+    if (Atomics.load(this.m_state, WRITE_WAITERS) || !this.tryLockWrite()) return null;
+    return this.releaser(() => this.unlock());
+  }
+
+  /**
+   * Acquires the write lock and returns a disposable object for 'using' syntax. Like
+   * {@link MutexRW.lockWrite}, the handle can downgrade to a read lock without letting
+   * a writer in between.
+   *
+   * @param options - Acquisition options, such as an `AbortSignal` or a timeout to stop waiting.
+   * @returns A promise resolving to a write lock handle with [Symbol.dispose] that releases the lock.
+   */
+  public async lockWrite(options: AcquireOptions = {}): Promise<WriteLockHandle> {
+    await this.acquire(WRITE_WAITERS, () => this.tryLockWrite(), options);
+    let held: 'read' | 'write' | null = 'write';
+    return {
+      downgrade: () => {
+        if (held !== 'write') throw new Error('Cannot downgrade: the write lock is not held');
+        held = 'read';
+        Atomics.store(this.m_state, STATE, 1);
+        Atomics.notify(this.m_state, STATE);
+      },
+      [Symbol.dispose]: () => {
+        if (held === null) return this.repeatedRelease();
+        if (held === 'read') this.unlockRead();
+        else this.unlock();
+        held = null;
+      },
+    };
+  }
+
+  private async acquire(waitersSlot: number, tryLock: () => boolean, options: AcquireOptions) {
+    const { signal, timeoutMs } = options;
+    signal?.throwIfAborted();
+    if (tryLock()) return;
+    Atomics.add(this.m_state, waitersSlot, 1);
+    const cancel = cancellation(signal, timeoutMs, ms => new LockTimeoutError(this.name, ms));
+    try {
+      for (;;) {
+        const state = Atomics.load(this.m_state, STATE);
+        if (tryLock()) return;
+        await waitChange(this.m_state, STATE, state, this.m_pollIntervalMs, cancel);
+      }
+    } finally {
+      if (Atomics.sub(this.m_state, waitersSlot, 1) === 1 && waitersSlot === WRITE_WAITERS) {
+        // The last queued writer is gone: readers it kept out may proceed
+        Atomics.notify(this.m_state, STATE);
+      }
+      cancel?.dispose();
+    }
+  }
+
+  private tryLockRead() {
+    for (;;) {
+      const state = Atomics.load(this.m_state, STATE);
+      if (state < 0 || Atomics.load(this.m_state, WRITE_WAITERS)) return false;
+      if (Atomics.compareExchange(this.m_state, STATE, state, state + 1) === state) return true;
+    }
+  }
+
+  private tryLockWrite() {
+    return Atomics.compareExchange(this.m_state, STATE, 0, -1) === 0;
+  }
+
+  private unlockRead() {
+    if (Atomics.sub(this.m_state, STATE, 1) === 1) Atomics.notify(this.m_state, STATE);
+  }
+
+  private unlock() {
+    Atomics.store(this.m_state, STATE, 0);
+    Atomics.notify(this.m_state, STATE);
+  }
+
+  private releaser(unlock: () => void) {
+    let released = false;
+    return () => {
+      if (released) return this.repeatedRelease();
+      released = true;
+      unlock();
+    };
+  }
+
+  private repeatedRelease() {
+    if (this.strictRelease) throw new LockReleasedError(this.name);
+  }
+}
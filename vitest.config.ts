@@ -1,3 +1,13 @@
-import { defineConfig } from 'vitest/config';
+import { configDefaults, defineConfig } from 'vitest/config';
 
-export default defineConfig({});
+// Tests that force garbage collection get workers of their own, started with `gc()` exposed
+const GC_TESTS = 'src/**/*.gc.test.ts';
+
+export default defineConfig({
+  test: {
+    projects: [
+      { extends: true, test: { name: 'unit', exclude: [...configDefaults.exclude, GC_TESTS] } },
+      { extends: true, test: { name: 'gc', include: [GC_TESTS], execArgv: ['--expose-gc'] } },
+    ],
+  },
+});